@@ -12,8 +12,10 @@ const DEFAULT_PROFILE: UserProfile = {
   height: 175,
   weight: 70,
   gender: 'male',
-  address: '',
+  timezone: 'GMT+0',
   manualLimit: null,
+  activityLevel: 'sedentary',
+  deficitGoal: 0,
 };
 
 const App: React.FC = () => {
@@ -1,45 +1,25 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-
-// --- TYPES ---
-type Gender = 'male' | 'female';
-type ActivityLevel = 'sedentary' | 'lightly_active' | 'moderately_active' | 'very_active' | 'extra_active';
-
-interface UserProfile {
-  name: string;
-  dob: string;
-  height: number;
-  weight: number;
-  gender: Gender;
-  timezone: string;
-  manualLimit: number | null;
-  activityLevel: ActivityLevel;
-  deficitGoal: number;
-}
-
-type ActivityType = 'Walking' | 'Running' | 'Biking' | 'HIIT' | 'Daily Chores' | 'Others';
-
-interface LogEntry {
-  id: string;
-  type: 'food' | 'activity';
-  name: string;
-  calories: number;
-  timestamp: number;
-  activityType?: ActivityType;
-}
-
-interface FastingLog {
-  id: string;
-  startTime: number;
-  endTime: number;
-  duration: number;
-}
-
-interface FastingState {
-  isActive: boolean;
-  startTime: number | null;
-}
+import { UserProfile, Gender, ActivityLevel, MealSlot, FastingProtocol, Macros, ActivityType, LogEntry, MealComponent, SavedMeal, FastingLog, FastingState, FoodItem, WeightEntry, DailyLimitChange, FastingPlan, EatingWindow, LoggingReminders, MealReminder, FastBreakRule } from './types';
+import { isSameDay, startOfDay, addDays, startOfWeek, toDateInputValue, fromDateInputValue, toDateTimeInputValue, fromDateTimeInputValue, getHourOfDay, formatInZone, setTimeZone, setDayStartHour, fromGmtOffset, migrateTimeZone } from './utils/dates';
+import { getLatestWeight, getTrendInRange, WeightTrendPoint } from './utils/weight';
+import { AdaptiveTdee, AdaptiveTdeeProgress, MIN_LOGGED_DAYS, MIN_WEIGH_INS, MIN_WEIGHT_SPAN_DAYS, estimateAdaptiveTdee, getAdaptiveTdeeProgress } from './utils/tdee';
+import { SAFE_INTAKE_FLOOR, IntakeAverage, calculateRequiredDeficit, getEffectiveDeficit, isBelowSafeFloor, getAverageDailyIntake, projectGoalDate } from './utils/goal';
+import { buildLogsCsv, buildFastingCsv, parseCsv, toCsv } from './utils/csv';
+import { ColumnMapping, CsvImportResult, CSV_PRESETS, DATE_FORMATS, EMPTY_MAPPING, DateFormat, detectPreset, mapCsvRows } from './utils/csvImport';
+import { Repository, Collection, openRepository, diffById } from './utils/repository';
+import { LoadFailure, LOCAL_STORAGE_KEYS, loadStoredData, clearStoredData } from './utils/migrations';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { createScheduler } from './utils/scheduler';
+import { isNotificationSupported, requestNotificationPermission, showNotification } from './utils/notifications';
+import { getFastingMilestones, getPendingMilestones, FastingMilestone, OVER_GOAL_HOURS } from './utils/fastingMilestones';
+import { DEFAULT_LOGGING_REMINDERS, excludeUnloggedDays, hasFoodBetween, summarizeDay, getUpcomingReminders, getMissedDay } from './utils/logging';
+import { DEFAULT_FAST_BREAK_RULE, findFastBreakingEntry, annotateBreakFasts, getLastMealTime } from './utils/fastBreak';
+import { WEEKDAYS, DEFAULT_EATING_WINDOW, DEFAULT_FASTING_PLAN, ADHERENCE_WINDOW_DAYS, getNextPlanEvent, calculatePlanAdherence, formatCountdown } from './utils/fastingPlan';
+import { ReportPeriod, DailyTotal, getLimitForDay, getPeriodStart, getNextPeriodStart, buildCalorieReport } from './utils/reports';
+import { BackupData, ImportMode, ImportReport, ParsedBackup, COLLECTION_LABELS, createBackup, getBackupFileName, parseBackup, applyBackup } from './utils/backup';
+import { DEFAULT_FASTING_HOURS, isGoalMet, getGoalMetDays, calculateStreaks, summarizeByPeriod, getOverallSummary, getFastingHoursByDay } from './utils/fastingStats';
 
 // --- CONSTANTS ---
 const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
@@ -50,6 +30,29 @@ const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
   extra_active: 1.9,
 };
 
+const MACRO_FIELDS: { key: keyof Macros; label: string; kcalPerGram: number; share: number }[] = [
+  { key: 'protein', label: 'Protein', kcalPerGram: 4, share: 0.3 },
+  { key: 'carbs', label: 'Carbs', kcalPerGram: 4, share: 0.4 },
+  { key: 'fat', label: 'Fat', kcalPerGram: 9, share: 0.3 },
+];
+
+const MEAL_SLOTS: { key: MealSlot; label: string; defaultShare: number }[] = [
+  { key: 'breakfast', label: 'Breakfast', defaultShare: 25 },
+  { key: 'lunch', label: 'Lunch', defaultShare: 35 },
+  { key: 'dinner', label: 'Dinner', defaultShare: 30 },
+  { key: 'snack', label: 'Snack', defaultShare: 10 },
+];
+
+const FASTING_PROTOCOLS: { id: FastingProtocol; label: string; hours: number; desc: string }[] = [
+  { id: '16:8', label: '16:8', hours: 16, desc: '16h fast, 8h eating window' },
+  { id: '18:6', label: '18:6', hours: 18, desc: '18h fast, 6h eating window' },
+  { id: '20:4', label: '20:4', hours: 20, desc: '20h fast, 4h eating window' },
+  { id: 'omad', label: 'OMAD', hours: 23, desc: 'One meal a day' },
+  { id: '36h', label: '36h', hours: 36, desc: 'Skip a full day' },
+  { id: '5:2', label: '5:2', hours: 24, desc: 'Two 24h low-intake days a week' },
+  { id: 'custom', label: 'Custom', hours: 16, desc: 'Your own target' },
+];
+
 const FASTING_STAGES = [
   { hours: 0, name: "Fed State", desc: "0-4h" },
   { hours: 4, name: "Early Fasting", desc: "4-12h" },
@@ -65,6 +68,10 @@ const GMT_OFFSETS = [
   "GMT+0", "GMT+1", "GMT+2", "GMT+3", "GMT+4", "GMT+5", "GMT+6", "GMT+7", "GMT+8", "GMT+9", "GMT+10", "GMT+11", "GMT+12", "GMT+13", "GMT+14"
 ];
 
+const FIXED_OFFSET_ZONES = GMT_OFFSETS.map(label => ({ value: fromGmtOffset(label)!, label }));
+const REGION_ZONES = Intl.supportedValuesOf('timeZone');
+const DAY_START_HOURS = [0, 1, 2, 3, 4, 5, 6];
+
 // --- HELPERS ---
 const calculateAge = (dob: string): number => {
   if (!dob) return 0;
@@ -76,10 +83,10 @@ const calculateAge = (dob: string): number => {
   return age;
 };
 
-const calculateDailyTarget = (profile: UserProfile): number => {
+const calculateMaintenanceCalories = (profile: UserProfile): number | null => {
   const age = calculateAge(profile.dob);
-  const { weight, height, gender, activityLevel, deficitGoal } = profile;
-  if (!weight || !height || !age) return 2000;
+  const { weight, height, gender, activityLevel } = profile;
+  if (!weight || !height || !age) return null;
   
   let bmr = 0;
   if (gender === 'male') {
@@ -88,8 +95,114 @@ const calculateDailyTarget = (profile: UserProfile): number => {
     bmr = (10 * weight) + (6.25 * height) - (5 * age) - 161;
   }
 
-  const tdee = bmr * ACTIVITY_MULTIPLIERS[activityLevel];
-  return Math.round(tdee - deficitGoal);
+  return Math.round(bmr * ACTIVITY_MULTIPLIERS[activityLevel]);
+};
+
+// The adaptive estimate is only used once the user opts in and there is enough data for one.
+const getMaintenance = (profile: UserProfile, adaptiveTdee: number | null = null): number | null =>
+  profile.maintenanceSource === 'adaptive' && adaptiveTdee ? adaptiveTdee : calculateMaintenanceCalories(profile);
+
+const calculateDailyTarget = (profile: UserProfile, adaptiveTdee: number | null = null): number => {
+  const tdee = getMaintenance(profile, adaptiveTdee);
+  if (tdee === null) return 2000;
+  return Math.round(tdee - getEffectiveDeficit(profile));
+};
+
+const caloriesFromMacros = (macros: Partial<Macros>): number =>
+  Math.round(MACRO_FIELDS.reduce((sum, f) => sum + (macros[f.key] || 0) * f.kcalPerGram, 0));
+
+const deriveMacroTargets = (dailyLimit: number): Macros => {
+  const targets = { protein: 0, carbs: 0, fat: 0 };
+  MACRO_FIELDS.forEach(f => { targets[f.key] = Math.round((dailyLimit * f.share) / f.kcalPerGram); });
+  return targets;
+};
+
+const getMealSlotForTime = (ts: number): MealSlot => {
+  const hour = getHourOfDay(ts);
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 17 && hour < 22) return 'dinner';
+  return 'snack';
+};
+
+// Entries logged before meal slots existed are bucketed by their timestamp.
+const getMealSlot = (log: LogEntry): MealSlot => log.meal || getMealSlotForTime(log.timestamp);
+
+const normalizeFoodName = (name: string): string => name.trim().toLowerCase();
+
+// Library items are copies of the last logged values; log entries never point back at them.
+const recordFoodUse = (library: FoodItem[], log: LogEntry): FoodItem[] => {
+  const key = normalizeFoodName(log.name);
+  if (!key) return library;
+  const existing = library.find(item => normalizeFoodName(item.name) === key);
+  const values = { name: log.name.trim(), calories: log.calories, protein: log.protein, carbs: log.carbs, fat: log.fat };
+  if (!existing) {
+    return [...library, { ...values, id: Math.random().toString(), isFavorite: false, useCount: 1, lastUsed: log.timestamp }];
+  }
+  const isLatest = log.timestamp >= existing.lastUsed;
+  return library.map(item => item !== existing ? item : {
+    ...item,
+    ...(isLatest ? values : {}),
+    useCount: item.useCount + 1,
+    lastUsed: Math.max(item.lastUsed, log.timestamp),
+  });
+};
+
+const buildFoodLibrary = (logs: LogEntry[]): FoodItem[] =>
+  logs.filter(log => log.type === 'food').sort((a, b) => a.timestamp - b.timestamp).reduce(recordFoodUse, [] as FoodItem[]);
+
+// Prefix matches rank above substring matches; favorites and frequently used items break ties.
+const searchFoods = (library: FoodItem[], query: string, limit = 5): FoodItem[] => {
+  const q = normalizeFoodName(query);
+  if (!q) return [];
+  const rank = (item: FoodItem) => (normalizeFoodName(item.name).startsWith(q) ? 0 : 1);
+  return library
+    .filter(item => normalizeFoodName(item.name).includes(q))
+    .sort((a, b) => rank(a) - rank(b) || Number(b.isFavorite) - Number(a.isFavorite) || b.useCount - a.useCount)
+    .slice(0, limit);
+};
+
+const scaleComponent = (item: MealComponent, factor: number): MealComponent => {
+  const round = (n?: number) => n === undefined ? undefined : Math.round(n * factor * 10) / 10;
+  return { ...item, calories: Math.round(item.calories * factor), protein: round(item.protein), carbs: round(item.carbs), fat: round(item.fat) };
+};
+
+const sumComponents = (items: MealComponent[]): { calories: number } & Partial<Macros> => {
+  const totals: { calories: number } & Partial<Macros> = { calories: Math.round(items.reduce((sum, i) => sum + i.calories * i.quantity, 0)) };
+  MACRO_FIELDS.forEach(f => {
+    if (items.some(i => i[f.key] !== undefined)) totals[f.key] = Math.round(items.reduce((sum, i) => sum + (i[f.key] || 0) * i.quantity, 0) * 10) / 10;
+  });
+  return totals;
+};
+
+const getPerServing = (meal: SavedMeal): { calories: number } & Partial<Macros> => {
+  const totals = sumComponents(meal.items);
+  const servings = Math.max(1, meal.servings);
+  const perServing: { calories: number } & Partial<Macros> = { calories: Math.round(totals.calories / servings) };
+  MACRO_FIELDS.forEach(f => { if (totals[f.key] !== undefined) perServing[f.key] = Math.round((totals[f.key]! / servings) * 10) / 10; });
+  return perServing;
+};
+
+const expandSavedMeal = (meal: SavedMeal, timestamp: number, servingsEaten = 1): Omit<LogEntry, 'id'>[] => {
+  if (meal.kind === 'meal') {
+    const groupId = Math.random().toString();
+    return meal.items.map(item => {
+      const scaled = scaleComponent(item, item.quantity * servingsEaten);
+      return { type: 'food', name: item.name, calories: scaled.calories, protein: scaled.protein, carbs: scaled.carbs, fat: scaled.fat, timestamp, groupId, groupName: meal.name };
+    });
+  }
+  const factor = servingsEaten / Math.max(1, meal.servings);
+  const eaten = scaleComponent({ ...sumComponents(meal.items), name: meal.name, quantity: 1 }, factor);
+  return [{
+    type: 'food',
+    name: servingsEaten === 1 ? meal.name : `${meal.name} ×${servingsEaten}`,
+    calories: eaten.calories,
+    protein: eaten.protein,
+    carbs: eaten.carbs,
+    fat: eaten.fat,
+    timestamp,
+    breakdown: meal.items.map(item => ({ ...scaleComponent(item, item.quantity * factor), quantity: 1 })),
+  }];
 };
 
 const formatTime = (ms: number): string => {
@@ -100,12 +213,38 @@ const formatTime = (ms: number): string => {
   return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
 };
 
-const isSameDay = (d1: number, d2: number): boolean => {
-  const date1 = new Date(d1);
-  const date2 = new Date(d2);
-  return date1.getFullYear() === date2.getFullYear() &&
-         date1.getMonth() === date2.getMonth() &&
-         date1.getDate() === date2.getDate();
+const getProtocolHours = (protocol: FastingProtocol, customHours?: number): number =>
+  protocol === 'custom' ? customHours || DEFAULT_FASTING_HOURS : FASTING_PROTOCOLS.find(p => p.id === protocol)!.hours;
+
+const getProtocolLabel = (protocol: FastingProtocol | undefined, hours: number): string =>
+  !protocol || protocol === 'custom' ? `${hours}h` : FASTING_PROTOCOLS.find(p => p.id === protocol)!.label;
+
+const createFastingLog = (id: string, startTime: number, endTime: number, protocol: FastingProtocol | undefined, targetHours: number): FastingLog => {
+  const duration = endTime - startTime;
+  return { id, startTime, endTime, duration, protocol, targetHours, goalMet: duration >= targetHours * 3600000 };
+};
+
+const formatDateTime = (ts: number): string => formatInZone(ts, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Returns a user-facing reason the session can't be saved, or null when it fits between existing sessions.
+const validateFastingSession = (session: { id?: string; startTime: number; endTime: number }, logs: FastingLog[], activeStart: number | null): string | null => {
+  if (isNaN(session.startTime) || isNaN(session.endTime)) return 'Enter both a start and an end time.';
+  if (session.startTime > Date.now()) return "Start time can't be in the future.";
+  if (session.endTime <= session.startTime) return 'End time must be after the start time.';
+  if (session.endTime > Date.now()) return "End time can't be in the future.";
+  const overlap = logs.find(log => log.id !== session.id && session.startTime < log.endTime && log.startTime < session.endTime);
+  if (overlap) return `Overlaps the fast from ${formatDateTime(overlap.startTime)} to ${formatDateTime(overlap.endTime)}.`;
+  if (activeStart !== null && session.endTime > activeStart) return `Overlaps your current fast, started ${formatDateTime(activeStart)}.`;
+  return null;
+};
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
 };
 
 const getFastingStageName = (hours: number): string => {
@@ -142,6 +281,74 @@ const CircularProgress: React.FC<{ percentage: number; label: string; subLabel?:
   );
 };
 
+const MacroBar: React.FC<{ label: string; value: number; target: number }> = ({ label, value, target }) => {
+  const isOver = value > target;
+  return (
+    <div className="flex-1 space-y-2">
+      <div className="flex justify-between items-baseline">
+        <span className="text-slate-400 text-[9px] font-black uppercase tracking-widest">{label}</span>
+        <span className={`text-[10px] font-black ${isOver ? 'text-red-500' : 'text-slate-900'}`}>{Math.round(value)}/{target}g</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-slate-100 overflow-hidden">
+        <div className={`h-full rounded-full transition-all duration-700 ${isOver ? 'bg-red-500' : 'bg-indigo-600'}`} style={{ width: `${target > 0 ? Math.min(100, (value / target) * 100) : 0}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const WeightChart: React.FC<{ points: WeightTrendPoint[]; from: number; to: number; width?: number; height?: number }> = ({ points, from, to, width = 320, height = 160 }) => {
+  const padding = 12;
+  const values = points.flatMap(p => [p.weight, p.trend]);
+  const min = Math.min(...values) - 0.5;
+  const max = Math.max(...values) + 0.5;
+  const x = (ts: number) => padding + ((ts - from) / Math.max(1, to - from)) * (width - padding * 2);
+  const y = (kg: number) => padding + ((max - kg) / (max - min)) * (height - padding * 2);
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      <line x1={padding} x2={width - padding} y1={y(max - 0.5)} y2={y(max - 0.5)} stroke="currentColor" className="text-slate-100" />
+      <line x1={padding} x2={width - padding} y1={y(min + 0.5)} y2={y(min + 0.5)} stroke="currentColor" className="text-slate-100" />
+      {points.map(p => <circle key={p.timestamp} cx={x(p.timestamp)} cy={y(p.weight)} r={2.5} fill="currentColor" className="text-slate-300" />)}
+      {points.length > 1 && (
+        <polyline points={points.map(p => `${x(p.timestamp)},${y(p.trend)}`).join(' ')} fill="none" stroke="currentColor" strokeWidth={3} strokeLinecap="round" strokeLinejoin="round" className="text-indigo-600" />
+      )}
+      <text x={width - padding} y={y(max - 0.5) - 4} textAnchor="end" className="fill-slate-400 text-[9px] font-black">{(max - 0.5).toFixed(1)}</text>
+      <text x={width - padding} y={y(min + 0.5) + 12} textAnchor="end" className="fill-slate-400 text-[9px] font-black">{(min + 0.5).toFixed(1)}</text>
+    </svg>
+  );
+};
+
+// Net calories per day against that day's limit; days without a log get no bar.
+const CalorieBarChart: React.FC<{ days: DailyTotal[]; slots: number; width?: number; height?: number }> = ({ days, slots, width = 320, height = 160 }) => {
+  const padding = 12;
+  const labelHeight = 14;
+  const max = Math.max(1, ...days.flatMap(d => [d.net, d.limit])) * 1.1;
+  const slot = (width - padding * 2) / slots;
+  const barWidth = Math.max(2, slot * 0.6);
+  const x = (i: number) => padding + i * slot + (slot - barWidth) / 2;
+  const y = (kcal: number) => padding + ((max - Math.max(0, kcal)) / max) * (height - labelHeight - padding * 2);
+  const baseline = y(0);
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${width} ${height}`} className="overflow-visible">
+      <line x1={padding} x2={width - padding} y1={baseline} y2={baseline} stroke="currentColor" className="text-slate-100" />
+      {days.map((d, i) => (
+        <g key={d.day}>
+          {d.consumed > 0 && (
+            <rect x={x(i)} y={y(d.net)} width={barWidth} height={baseline - y(d.net)} rx={Math.min(3, barWidth / 2)} fill="currentColor" className={!d.logged ? 'text-slate-200' : d.net > d.limit ? 'text-red-500' : 'text-indigo-600'} />
+          )}
+          <line x1={x(i) - 1} x2={x(i) + barWidth + 1} y1={y(d.limit)} y2={y(d.limit)} stroke="currentColor" strokeWidth={2} strokeLinecap="round" className="text-slate-900" />
+          {(slots <= 7 || i % 7 === 0) && (
+            <text x={x(i) + barWidth / 2} y={height - padding / 2} textAnchor="middle" className="fill-slate-400 text-[9px] font-black">
+              {slots <= 7 ? formatInZone(d.day, { weekday: 'narrow' }) : formatInZone(d.day, { day: 'numeric' })}
+            </text>
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
 const Modal: React.FC<{ isOpen: boolean; onClose: () => void; title: string; children: React.ReactNode }> = ({ isOpen, onClose, title, children }) => {
   if (!isOpen) return null;
   return (
@@ -158,101 +365,563 @@ const Modal: React.FC<{ isOpen: boolean; onClose: () => void; title: string; chi
 };
 
 // --- VIEWS ---
-const CaloriesTab: React.FC<{ logs: LogEntry[], dailyLimit: number, onAddLog: any, onDeleteLog: any }> = ({ logs, dailyLimit, onAddLog, onDeleteLog }) => {
+const FoodLibraryModal: React.FC<{ isOpen: boolean, onClose: () => void, library: FoodItem[], onUpdateFood: any, onDeleteFood: any }> = ({ isOpen, onClose, library, onUpdateFood, onDeleteFood }) => {
+  const [query, setQuery] = useState('');
+  const [editing, setEditing] = useState<FoodItem | null>(null);
+
+  const items = useMemo(() => {
+    const q = normalizeFoodName(query);
+    return library
+      .filter(item => normalizeFoodName(item.name).includes(q))
+      .sort((a, b) => Number(b.isFavorite) - Number(a.isFavorite) || a.name.localeCompare(b.name));
+  }, [library, query]);
+
+  const setMacro = (key: keyof Macros, value: string) => editing && setEditing({ ...editing, [key]: value === '' ? undefined : Number(value) });
+
+  return (
+    <Modal isOpen={isOpen} onClose={() => { setEditing(null); onClose(); }} title={editing ? "Edit Food" : "Food Library"}>
+      {editing ? (
+        <form onSubmit={(e) => { e.preventDefault(); onUpdateFood(editing); setEditing(null); }} className="space-y-4">
+          <input type="text" placeholder="Item Name" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none focus:border-indigo-400" value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} required />
+          <input type="number" placeholder="Calories (kcal)" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none focus:border-indigo-400" value={editing.calories} onChange={(e) => setEditing({ ...editing, calories: Number(e.target.value) })} required />
+          <div className="grid grid-cols-3 gap-3">
+            {MACRO_FIELDS.map(f => (
+              <input key={f.key} type="number" min="0" step="0.1" placeholder={`${f.label} (g)`} className="w-full px-3 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold text-sm placeholder:text-slate-300 outline-none focus:border-indigo-400" value={editing[f.key] ?? ''} onChange={(e) => setMacro(f.key, e.target.value)} />
+            ))}
+          </div>
+          <p className="text-slate-400 text-[9px] font-bold uppercase tracking-widest text-center">Past log entries keep their original values</p>
+          <div className="flex gap-4">
+            <button type="button" onClick={() => { onDeleteFood(editing.id); setEditing(null); }} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[9px] tracking-widest">Remove</button>
+            <button type="submit" className="flex-1 py-4 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest">Save</button>
+          </div>
+        </form>
+      ) : (
+        <div className="space-y-4">
+          <input type="text" placeholder="Search foods" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={query} onChange={(e) => setQuery(e.target.value)} />
+          {items.length === 0 ? (
+            <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No saved foods</div>
+          ) : (
+            <div className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-50">
+              {items.map(item => (
+                <div key={item.id} className="flex items-center justify-between py-3 gap-3">
+                  <button onClick={() => onUpdateFood({ ...item, isFavorite: !item.isFavorite })} className={`text-lg ${item.isFavorite ? 'text-amber-400' : 'text-slate-200'}`}>★</button>
+                  <button onClick={() => setEditing(item)} className="flex-1 text-left">
+                    <p className="text-slate-900 font-bold text-sm">{item.name}</p>
+                    <p className="text-slate-400 text-[9px] font-bold uppercase">{item.calories} kcal · used {item.useCount}×</p>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+const SavedMealsModal: React.FC<{ isOpen: boolean, onClose: () => void, meals: SavedMeal[], library: FoodItem[], onLogMeal: any, onSaveMeal: any, onDeleteMeal: any }> = ({ isOpen, onClose, meals, library, onLogMeal, onSaveMeal, onDeleteMeal }) => {
+  const [draft, setDraft] = useState<SavedMeal | null>(null);
+  const [itemName, setItemName] = useState('');
+  const [itemCalories, setItemCalories] = useState('');
+  const [itemQuantity, setItemQuantity] = useState('1');
+  const [servingsToLog, setServingsToLog] = useState<Record<string, string>>({});
+
+  const suggestions = useMemo(() => searchFoods(library, itemName, 4).filter(item => normalizeFoodName(item.name) !== normalizeFoodName(itemName)), [library, itemName]);
+
+  const startDraft = (kind: SavedMeal['kind'], meal?: SavedMeal) => {
+    setDraft(meal ? { ...meal, items: [...meal.items] } : { id: Math.random().toString(), kind, name: '', items: [], servings: 1 });
+    setItemName('');
+    setItemCalories('');
+    setItemQuantity('1');
+  };
+
+  const addItem = (item?: FoodItem) => {
+    if (!draft) return;
+    const name = item ? item.name : itemName.trim();
+    if (!name || (!item && itemCalories === '')) return;
+    const component: MealComponent = item
+      ? { name, calories: item.calories, protein: item.protein, carbs: item.carbs, fat: item.fat, quantity: Number(itemQuantity) || 1 }
+      : { name, calories: Number(itemCalories), quantity: Number(itemQuantity) || 1 };
+    setDraft({ ...draft, items: [...draft.items, component] });
+    setItemName('');
+    setItemCalories('');
+    setItemQuantity('1');
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  if (draft) {
+    const totals = sumComponents(draft.items);
+    return (
+      <Modal isOpen={isOpen} onClose={handleClose} title={draft.kind === 'meal' ? "Saved Meal" : "Recipe"}>
+        <form onSubmit={(e) => { e.preventDefault(); if (draft.items.length > 0) { onSaveMeal(draft); setDraft(null); } }} className="space-y-4">
+          <input type="text" placeholder={draft.kind === 'meal' ? "Meal Name" : "Recipe Name"} className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} required />
+          {draft.kind === 'recipe' && (
+            <input type="number" min="1" placeholder="Servings" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={draft.servings} onChange={(e) => setDraft({ ...draft, servings: Math.max(1, Number(e.target.value)) })} required />
+          )}
+          <div className="max-h-40 overflow-y-auto custom-scrollbar divide-y divide-slate-50">
+            {draft.items.map((item, index) => (
+              <div key={index} className="flex items-center justify-between py-2">
+                <p className="text-slate-900 font-bold text-sm">{item.quantity !== 1 && `${item.quantity}× `}{item.name}</p>
+                <div className="flex items-center gap-3">
+                  <span className="text-slate-400 text-[10px] font-black">{Math.round(item.calories * item.quantity)}</span>
+                  <button type="button" onClick={() => setDraft({ ...draft, items: draft.items.filter((_, i) => i !== index) })} className="text-slate-200 hover:text-indigo-600 p-1">✕</button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="relative grid grid-cols-[1fr_5rem_3.5rem] gap-2">
+            <input type="text" placeholder="Ingredient" autoComplete="off" className="w-full px-4 py-3 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold text-sm placeholder:text-slate-300 outline-none focus:border-indigo-400" value={itemName} onChange={(e) => setItemName(e.target.value)} />
+            <input type="number" placeholder="kcal" className="w-full px-3 py-3 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold text-sm placeholder:text-slate-300 outline-none focus:border-indigo-400" value={itemCalories} onChange={(e) => setItemCalories(e.target.value)} />
+            <input type="number" min="0" step="0.25" placeholder="Qty" className="w-full px-3 py-3 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold text-sm placeholder:text-slate-300 outline-none focus:border-indigo-400" value={itemQuantity} onChange={(e) => setItemQuantity(e.target.value)} />
+            {suggestions.length > 0 && (
+              <div className="absolute z-10 top-full left-0 right-0 mt-1 bg-white border border-slate-100 rounded-xl shadow-xl divide-y divide-slate-50 overflow-hidden">
+                {suggestions.map(item => (
+                  <button key={item.id} type="button" onClick={() => addItem(item)} className="w-full flex justify-between items-center px-4 py-2 text-left hover:bg-slate-50">
+                    <span className="text-slate-900 font-bold text-sm">{item.name}</span>
+                    <span className="text-slate-400 text-[9px] font-black uppercase">{item.calories} kcal</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <button type="button" onClick={() => addItem()} className="w-full py-3 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl font-black uppercase text-[9px] tracking-widest">+ Add Item</button>
+          <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest text-center">
+            {totals.calories} kcal total{draft.kind === 'recipe' && ` · ${getPerServing(draft).calories} kcal / serving`}
+          </p>
+          <div className="flex gap-4">
+            <button type="button" onClick={() => setDraft(null)} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[9px] tracking-widest">Back</button>
+            <button type="submit" disabled={draft.items.length === 0} className="flex-1 py-4 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest disabled:opacity-30">Save</button>
+          </div>
+        </form>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Meals & Recipes">
+      <div className="space-y-4">
+        {meals.length === 0 ? (
+          <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No saved meals yet</div>
+        ) : (
+          <div className="max-h-72 overflow-y-auto custom-scrollbar divide-y divide-slate-50">
+            {meals.map(meal => (
+              <div key={meal.id} className="flex items-center justify-between py-3 gap-3">
+                <button onClick={() => startDraft(meal.kind, meal)} className="flex-1 text-left">
+                  <p className="text-slate-900 font-bold text-sm">{meal.name}</p>
+                  <p className="text-slate-400 text-[9px] font-bold uppercase">
+                    {meal.kind === 'meal' ? `${meal.items.length} items · ${sumComponents(meal.items).calories} kcal` : `${getPerServing(meal).calories} kcal / serving · makes ${meal.servings}`}
+                  </p>
+                </button>
+                {meal.kind === 'recipe' && (
+                  <input type="number" min="0.5" step="0.5" className="w-14 px-2 py-2 rounded-lg bg-slate-50 border border-slate-200 text-slate-900 font-bold text-xs text-center outline-none" value={servingsToLog[meal.id] ?? '1'} onChange={(e) => setServingsToLog({ ...servingsToLog, [meal.id]: e.target.value })} />
+                )}
+                <button onClick={() => { onLogMeal(meal, Number(servingsToLog[meal.id] ?? 1) || 1); handleClose(); }} className="px-4 py-2 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest">Log</button>
+                <button onClick={() => onDeleteMeal(meal.id)} className="text-slate-200 hover:text-indigo-600 p-1">✕</button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <button onClick={() => startDraft('meal')} className="py-4 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest">+ Meal</button>
+          <button onClick={() => startDraft('recipe')} className="py-4 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-xl font-black uppercase text-[9px] tracking-widest">+ Recipe</button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+const CalorieReports: React.FC<{ logs: LogEntry[], unloggedDays: string[], dailyLimit: number, limitHistory: DailyLimitChange[], maintenance: number | null, onBack: any }> = ({ logs, unloggedDays, dailyLimit, limitHistory, maintenance, onBack }) => {
+  const [period, setPeriod] = useState<ReportPeriod>('week');
+  const [periodStart, setPeriodStart] = useState(() => getPeriodStart('week', Date.now()));
+
+  const report = useMemo(() => buildCalorieReport(logs, unloggedDays, limitHistory, dailyLimit, maintenance, period, periodStart), [logs, unloggedDays, limitHistory, dailyLimit, maintenance, period, periodStart]);
+  const isCurrent = report.to > Date.now();
+  const slots = Math.round((report.to - report.from) / (24 * 60 * 60 * 1000));
+
+  const changePeriod = (p: ReportPeriod) => {
+    setPeriod(p);
+    setPeriodStart(getPeriodStart(p, Date.now()));
+  };
+
+  const periodLabel = period === 'week'
+    ? `Week of ${formatInZone(periodStart, { month: 'short', day: 'numeric' })}`
+    : formatInZone(periodStart, { month: 'long', year: 'numeric' });
+
+  return (
+    <div className="space-y-12 pb-24">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="text-slate-400 text-[9px] font-black uppercase tracking-widest">‹ Back</button>
+        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Reports</h3>
+        <div className="flex gap-2">
+          {(['week', 'month'] as const).map(p => (
+            <button key={p} onClick={() => changePeriod(p)} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${period === p ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>{p}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={() => setPeriodStart(getPeriodStart(period, addDays(periodStart, -1)))} className="w-12 h-12 rounded-2xl bg-slate-50 text-slate-400 font-black active:scale-95 transition-all">‹</button>
+        <span className="flex-1 text-center text-[10px] font-black uppercase tracking-[0.3em] text-slate-900">{periodLabel}</span>
+        <button onClick={() => setPeriodStart(getNextPeriodStart(period, periodStart))} disabled={isCurrent} className="w-12 h-12 rounded-2xl bg-slate-50 text-slate-400 font-black active:scale-95 transition-all disabled:opacity-30">›</button>
+      </div>
+
+      <div className="space-y-4">
+        <CalorieBarChart days={report.days} slots={slots} />
+        <div className="flex items-center gap-4 justify-end text-slate-400 text-[9px] font-black uppercase tracking-widest">
+          <span className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-[3px] bg-indigo-600" />Under</span>
+          <span className="flex items-center gap-2"><span className="w-2.5 h-2.5 rounded-[3px] bg-red-500" />Over</span>
+          <span className="flex items-center gap-2"><span className="w-2.5 h-0.5 rounded-full bg-slate-900" />Limit</span>
+        </div>
+      </div>
+
+      {report.loggedDays === 0 ? (
+        <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No completed days logged</div>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {[
+            { label: 'Avg Intake', value: `${report.averageIntake}` },
+            { label: 'Days Logged', value: report.loggedDays },
+            { label: 'Under Goal', value: `${report.underGoal}d` },
+            { label: 'Over Goal', value: `${report.overGoal}d` },
+            { label: report.totalDeficit !== null && report.totalDeficit < 0 ? 'Total Surplus' : 'Total Deficit', value: report.totalDeficit !== null ? Math.abs(report.totalDeficit) : '—' },
+            { label: 'Est. Change', value: report.estimatedChangeKg !== null ? `${report.estimatedChangeKg > 0 ? '+' : ''}${report.estimatedChangeKg.toFixed(2)}kg` : '—' },
+          ].map(stat => (
+            <div key={stat.label} className="p-5 rounded-3xl bg-slate-50 border border-slate-100">
+              <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mb-1">{stat.label}</p>
+              <p className="text-2xl font-black text-slate-900 tracking-tighter">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      {maintenance === null && report.loggedDays > 0 && (
+        <p className="text-slate-400 text-[9px] font-bold uppercase tracking-widest text-center">Complete your profile to estimate weight change</p>
+      )}
+    </div>
+  );
+};
+
+const CaloriesTab: React.FC<{ logs: LogEntry[], unloggedDays: string[], fastBreakThreshold: number, dailyLimit: number, limitHistory: DailyLimitChange[], maintenance: number | null, macroTargets: Macros | null, mealBudgets: Record<MealSlot, number> | null, foodLibrary: FoodItem[], savedMeals: SavedMeal[], onAddLog: any, onAddLogs: any, onUpdateLog: any, onDeleteLog: any, onUpdateFood: any, onDeleteFood: any, onSaveMeal: any, onDeleteMeal: any, onToggleUnlogged: any }> = ({ logs, unloggedDays, fastBreakThreshold, dailyLimit, limitHistory, maintenance, macroTargets, mealBudgets, foodLibrary, savedMeals, onAddLog, onAddLogs, onUpdateLog, onDeleteLog, onUpdateFood, onDeleteFood, onSaveMeal, onDeleteMeal, onToggleUnlogged }) => {
+  const [selectedDay, setSelectedDay] = useState(() => startOfDay(Date.now()));
   const [isFoodModalOpen, setFoodModalOpen] = useState(false);
   const [isActivityModalOpen, setActivityModalOpen] = useState(false);
+  const [logToEdit, setLogToEdit] = useState<LogEntry | null>(null);
   const [logToDelete, setLogToDelete] = useState<LogEntry | null>(null);
   const [foodName, setFoodName] = useState('');
   const [foodCalories, setFoodCalories] = useState('');
+  const [foodMacros, setFoodMacros] = useState<Record<keyof Macros, string>>({ protein: '', carbs: '', fat: '' });
+  const [foodMeal, setFoodMeal] = useState<MealSlot | null>(null);
   const [activityType, setActivityType] = useState<ActivityType>('Walking');
+  const [activityName, setActivityName] = useState('');
   const [activityCalories, setActivityCalories] = useState('');
+  const [entryTime, setEntryTime] = useState('');
+  const [isLibraryOpen, setLibraryOpen] = useState(false);
+  const [isMealsOpen, setMealsOpen] = useState(false);
+  const [quickAddView, setQuickAddView] = useState<'favorites' | 'recent' | 'frequent'>('recent');
+  const [currentTime, setCurrentTime] = useState(Date.now());
+  const [showReports, setShowReports] = useState(false);
+
+  useEffect(() => {
+    const interval = setInterval(() => setCurrentTime(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
 
-  const todayLogs = useMemo(() => logs.filter(log => isSameDay(log.timestamp, Date.now())), [logs]);
-  const consumed = todayLogs.filter(log => log.type === 'food').reduce((sum, log) => sum + log.calories, 0);
-  const burned = todayLogs.filter(log => log.type === 'activity').reduce((sum, log) => sum + log.calories, 0);
+  const today = startOfDay(Date.now());
+  const isToday = selectedDay === today;
+  const dayLabel = isToday ? 'Today' : selectedDay === addDays(today, -1) ? 'Yesterday' : formatInZone(selectedDay, { weekday: 'short', month: 'short', day: 'numeric' });
+  const isUnlogged = unloggedDays.includes(toDateInputValue(selectedDay));
+  const lastMealTime = isToday ? getLastMealTime(logs, fastBreakThreshold, currentTime) : null;
+  const missedDay = isToday ? getMissedDay(logs, unloggedDays, Date.now()) : null;
+
+  const dayLogs = useMemo(() => logs.filter(log => isSameDay(log.timestamp, selectedDay)).sort((a, b) => b.timestamp - a.timestamp), [logs, selectedDay]);
+  const dayLimit = isToday ? dailyLimit : getLimitForDay(limitHistory, selectedDay, dailyLimit);
+  const consumed = dayLogs.filter(log => log.type === 'food').reduce((sum, log) => sum + log.calories, 0);
+  const burned = dayLogs.filter(log => log.type === 'activity').reduce((sum, log) => sum + log.calories, 0);
   const netCalories = consumed - burned;
-  const remaining = dailyLimit - netCalories;
-  const percentage = (netCalories / dailyLimit) * 100;
+  const remaining = dayLimit - netCalories;
+  const percentage = (netCalories / dayLimit) * 100;
+  const dayMacroTargets = macroTargets || deriveMacroTargets(dayLimit);
+  const mealSections = MEAL_SLOTS.map(slot => {
+    const entries = dayLogs.filter(log => log.type === 'food' && getMealSlot(log) === slot.key);
+    const budget = mealBudgets ? Math.round((dayLimit * mealBudgets[slot.key]) / 100) : null;
+    return { ...slot, entries, total: entries.reduce((sum, log) => sum + log.calories, 0), budget };
+  });
+  const activityLogs = dayLogs.filter(log => log.type === 'activity');
+  const dayMacros = MACRO_FIELDS.map(f => ({ ...f, value: dayLogs.reduce((sum, log) => sum + (log.type === 'food' ? log[f.key] || 0 : 0), 0) }));
+
+  const suggestions = useMemo(() => searchFoods(foodLibrary, foodName).filter(item => normalizeFoodName(item.name) !== normalizeFoodName(foodName)), [foodLibrary, foodName]);
+  const quickAddItems = useMemo(() => {
+    if (quickAddView === 'favorites') return foodLibrary.filter(item => item.isFavorite).sort((a, b) => a.name.localeCompare(b.name)).slice(0, 8);
+    const key = quickAddView === 'recent' ? 'lastUsed' : 'useCount';
+    return [...foodLibrary].sort((a, b) => b[key] - a[key]).slice(0, 8);
+  }, [foodLibrary, quickAddView]);
+
+  // New entries on a past day default to midday so they land inside that day.
+  const getDefaultEntryTime = () => isToday ? Date.now() : fromDateTimeInputValue(`${toDateInputValue(selectedDay)}T12:00`);
+
+  const openEntryModal = (type: LogEntry['type'], log: LogEntry | null = null) => {
+    setLogToEdit(log);
+    setEntryTime(toDateTimeInputValue(log ? log.timestamp : getDefaultEntryTime()));
+    if (type === 'food') {
+      setFoodName(log ? log.name : '');
+      setFoodCalories(log ? String(log.calories) : '');
+      setFoodMacros({ protein: log?.protein?.toString() || '', carbs: log?.carbs?.toString() || '', fat: log?.fat?.toString() || '' });
+      setFoodMeal(log ? getMealSlot(log) : null);
+      setFoodModalOpen(true);
+    } else {
+      // Entries from before activity types, or imported ones, are edited as "Others" under their own name.
+      setActivityType(log ? log.activityType || 'Others' : 'Walking');
+      setActivityName(log ? log.name : '');
+      setActivityCalories(log ? String(log.calories) : '');
+      setActivityModalOpen(true);
+    }
+  };
+
+  const closeEntryModal = () => {
+    setFoodModalOpen(false);
+    setActivityModalOpen(false);
+    setLogToEdit(null);
+  };
+
+  const handleSaveEntry = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+    const timestamp = entryTime ? fromDateTimeInputValue(entryTime) : Date.now();
+    if (logToEdit) onUpdateLog({ ...logToEdit, ...entry, timestamp });
+    else onAddLog({ ...entry, timestamp });
+    closeEntryModal();
+  };
+
+  const applyFood = (item: FoodItem) => {
+    setFoodName(item.name);
+    setFoodCalories(String(item.calories));
+    setFoodMacros({ protein: item.protein?.toString() || '', carbs: item.carbs?.toString() || '', fat: item.fat?.toString() || '' });
+  };
+
+  const handleQuickAdd = (item: FoodItem) => {
+    onAddLog({ type: 'food', name: item.name, calories: item.calories, protein: item.protein, carbs: item.carbs, fat: item.fat, timestamp: getDefaultEntryTime() });
+  };
+
+  // Blank macro fields stay unset; calories fall back to the macro energy when left empty.
+  const handleSaveFood = () => {
+    const macros: Partial<Macros> = {};
+    MACRO_FIELDS.forEach(f => { if (foodMacros[f.key] !== '') macros[f.key] = Number(foodMacros[f.key]); });
+    const calories = foodCalories !== '' ? Number(foodCalories) : caloriesFromMacros(macros);
+    const meal = foodMeal || getMealSlotForTime(entryTime ? fromDateTimeInputValue(entryTime) : Date.now());
+    handleSaveEntry({ type: 'food', name: foodName, calories, meal, protein: macros.protein, carbs: macros.carbs, fat: macros.fat });
+  };
+
+  // An edited entry keeps its name unless its type changes.
+  const handleSaveActivity = () => {
+    const name = activityType === 'Others' ? activityName.trim() || 'Others' : logToEdit?.activityType === activityType ? logToEdit.name : activityType;
+    handleSaveEntry({ type: 'activity', name, calories: Number(activityCalories), activityType });
+  };
+
+  const renderLogRow = (log: LogEntry) => (
+    <div key={log.id} className="flex items-center justify-between py-4 group">
+      <button onClick={() => openEntryModal(log.type, log)} className="flex items-center gap-4 text-left">
+        <div className={`w-1.5 h-1.5 rounded-full ${log.type === 'food' ? 'bg-indigo-600' : 'bg-orange-500'}`} />
+        <div>
+          <p className="text-slate-900 font-bold text-sm">{log.name}</p>
+          <p className="text-slate-400 text-[9px] font-bold uppercase">
+            {formatInZone(log.timestamp, { hour: '2-digit', minute: '2-digit' })}
+            {log.groupName && ` · ${log.groupName}`}
+            {MACRO_FIELDS.filter(f => log[f.key] !== undefined).map(f => ` · ${f.label[0]} ${log[f.key]}g`).join('')}
+          </p>
+          {log.breakdown && <p className="text-slate-300 text-[9px] font-bold">{log.breakdown.map(i => `${i.name} ${i.calories}`).join(' · ')}</p>}
+        </div>
+      </button>
+      <div className="flex items-center gap-4">
+        <span className={`font-black text-sm ${log.type === 'food' ? 'text-slate-900' : 'text-orange-500'}`}>
+          {log.type === 'food' ? `-${log.calories}` : `+${log.calories}`}
+        </span>
+        <button onClick={() => setLogToDelete(log)} className="text-slate-200 hover:text-indigo-600 transition-all p-1">✕</button>
+      </div>
+    </div>
+  );
 
   return (
     <div className="p-8 space-y-12">
-      <div className="flex flex-col items-center">
-        <CircularProgress percentage={percentage} label={remaining.toFixed(0)} subLabel={remaining < 0 ? "Exceeded" : "Remaining"} isRedAlert={remaining < 0} size={240} />
-        
-        <div className="flex gap-4 mt-10 w-full justify-between items-center max-w-[320px]">
-          <div className="text-center flex-1">
-            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mb-1">Consumed</p>
-            <p className="text-lg font-black text-slate-900">{consumed}</p>
+      {showReports ? (
+        <CalorieReports logs={logs} unloggedDays={unloggedDays} dailyLimit={dailyLimit} limitHistory={limitHistory} maintenance={maintenance} onBack={() => setShowReports(false)} />
+      ) : (<>
+        <div className="flex items-center justify-between gap-4">
+          <button onClick={() => setSelectedDay(addDays(selectedDay, -1))} className="w-12 h-12 rounded-2xl bg-slate-50 text-slate-400 font-black active:scale-95 transition-all">‹</button>
+          <label className="relative flex-1 text-center cursor-pointer">
+            <span className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-900">{dayLabel}</span>
+            <input type="date" className="absolute inset-0 opacity-0 cursor-pointer" max={toDateInputValue(today)} value={toDateInputValue(selectedDay)} onChange={(e) => e.target.value && setSelectedDay(Math.min(today, fromDateInputValue(e.target.value)))} />
+          </label>
+          <button onClick={() => setSelectedDay(addDays(selectedDay, 1))} disabled={isToday} className="w-12 h-12 rounded-2xl bg-slate-50 text-slate-400 font-black active:scale-95 transition-all disabled:opacity-30">›</button>
+        </div>
+
+        {missedDay !== null && (
+          <div className="p-5 rounded-3xl border border-amber-100 bg-amber-50/40 space-y-4">
+            <p className="text-slate-900 font-bold text-sm">You didn't log yesterday — fill it in, or mark it as unlogged so it's left out of your averages?</p>
+            <div className="grid grid-cols-2 gap-4">
+              <button onClick={() => setSelectedDay(missedDay)} className="py-3 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Fill In</button>
+              <button onClick={() => onToggleUnlogged(toDateInputValue(missedDay))} className="py-3 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Mark Unlogged</button>
+            </div>
           </div>
-          <div className="flex flex-col items-center border-x border-slate-100 px-6">
-            <p className="text-indigo-600 text-[9px] font-black uppercase tracking-widest mb-1">Goal Limit</p>
-            <p className="text-xl font-black text-slate-900 tracking-tighter">{dailyLimit}</p>
+        )}
+
+        {!isToday && (
+          <button onClick={() => onToggleUnlogged(toDateInputValue(selectedDay))} className={`w-full text-[9px] font-black uppercase tracking-widest ${isUnlogged ? 'text-amber-500' : 'text-slate-300'}`}>
+            {isUnlogged ? 'Unlogged — left out of averages · Undo' : 'Mark day as unlogged'}
+          </button>
+        )}
+
+        <div className="flex flex-col items-center">
+          <CircularProgress percentage={percentage} label={remaining.toFixed(0)} subLabel={remaining < 0 ? "Exceeded" : "Remaining"} isRedAlert={remaining < 0} size={240} />
+        
+          <div className="flex gap-4 mt-10 w-full justify-between items-center max-w-[320px]">
+            <div className="text-center flex-1">
+              <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mb-1">Consumed</p>
+              <p className="text-lg font-black text-slate-900">{consumed}</p>
+            </div>
+            <div className="flex flex-col items-center border-x border-slate-100 px-6">
+              <p className="text-indigo-600 text-[9px] font-black uppercase tracking-widest mb-1">Goal Limit</p>
+              <p className="text-xl font-black text-slate-900 tracking-tighter">{dayLimit}</p>
+            </div>
+            <div className="text-center flex-1">
+              <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mb-1">Burned</p>
+              <p className="text-lg font-black text-slate-900">{burned}</p>
+            </div>
           </div>
-          <div className="text-center flex-1">
-            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mb-1">Burned</p>
-            <p className="text-lg font-black text-slate-900">{burned}</p>
+
+          <div className="flex gap-4 mt-8 w-full max-w-[320px]">
+            {dayMacros.map(m => <MacroBar key={m.key} label={m.label} value={m.value} target={dayMacroTargets[m.key]} />)}
           </div>
+
+          {lastMealTime !== null && (
+            <p className="mt-8 text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">{formatCountdown(currentTime - lastMealTime)} since last meal</p>
+          )}
+
+          <button onClick={() => setShowReports(true)} className="mt-8 text-indigo-600 text-[9px] font-black uppercase tracking-widest">Weekly & Monthly Reports</button>
         </div>
-      </div>
 
-      <div className="grid grid-cols-2 gap-4">
-        <button onClick={() => setFoodModalOpen(true)} className="flex items-center justify-center py-5 bg-slate-900 text-white rounded-[1.5rem] font-black uppercase text-[10px] tracking-widest active:scale-95 transition-all">
-          + Food
-        </button>
-        <button onClick={() => setActivityModalOpen(true)} className="flex items-center justify-center py-5 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-[1.5rem] font-black uppercase text-[10px] tracking-widest active:scale-95 transition-all">
-          + Activity
-        </button>
-      </div>
+        <div className="grid grid-cols-2 gap-4">
+          <button onClick={() => openEntryModal('food')} className="flex items-center justify-center py-5 bg-slate-900 text-white rounded-[1.5rem] font-black uppercase text-[10px] tracking-widest active:scale-95 transition-all">
+            + Food
+          </button>
+          <button onClick={() => openEntryModal('activity')} className="flex items-center justify-center py-5 bg-indigo-50 text-indigo-600 border border-indigo-100 rounded-[1.5rem] font-black uppercase text-[10px] tracking-widest active:scale-95 transition-all">
+            + Activity
+          </button>
+        </div>
 
-      <div className="space-y-4">
-        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Today's Activity</h3>
-        {todayLogs.length === 0 ? (
-          <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No entries yet</div>
-        ) : (
-          <div className="divide-y divide-slate-50">
-            {todayLogs.map(log => (
-              <div key={log.id} className="flex items-center justify-between py-4 group">
-                <div className="flex items-center gap-4">
-                  <div className={`w-1.5 h-1.5 rounded-full ${log.type === 'food' ? 'bg-indigo-600' : 'bg-orange-500'}`} />
-                  <div>
-                    <p className="text-slate-900 font-bold text-sm">{log.name}</p>
-                    <p className="text-slate-400 text-[9px] font-bold uppercase">{new Date(log.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</p>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Quick Add</h3>
+            <div className="flex gap-4">
+              <button onClick={() => setMealsOpen(true)} className="text-indigo-600 text-[9px] font-black uppercase tracking-widest">Meals</button>
+              {foodLibrary.length > 0 && <button onClick={() => setLibraryOpen(true)} className="text-indigo-600 text-[9px] font-black uppercase tracking-widest">Library</button>}
+            </div>
+          </div>
+          {foodLibrary.length > 0 && (
+            <div className="flex gap-2">
+              {(['favorites', 'recent', 'frequent'] as const).map(view => (
+                <button key={view} onClick={() => setQuickAddView(view)} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${quickAddView === view ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>{view}</button>
+              ))}
+            </div>
+          )}
+          {foodLibrary.length > 0 && (quickAddItems.length === 0 ? (
+            <div className="py-4 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">Star foods in the library to pin them here</div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {quickAddItems.map(item => (
+                <button key={item.id} onClick={() => handleQuickAdd(item)} className="px-4 py-2 rounded-2xl bg-slate-50 border border-slate-100 text-left active:scale-95 transition-all">
+                  <span className="text-slate-900 font-bold text-xs">{item.name}</span>
+                  <span className="text-slate-400 text-[9px] font-black ml-2">+{item.calories}</span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">{isToday ? "Today's Activity" : `${dayLabel}'s Activity`}</h3>
+          {dayLogs.length === 0 ? (
+            <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No entries yet</div>
+          ) : (
+            <div className="space-y-6">
+              {mealSections.filter(section => section.entries.length > 0 || section.budget !== null).map(section => (
+                <div key={section.key}>
+                  <div className="flex items-center justify-between">
+                    <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">{section.label}</p>
+                    <p className={`text-[9px] font-black uppercase tracking-widest ${section.budget !== null && section.total > section.budget ? 'text-red-500' : 'text-slate-400'}`}>
+                      {section.total}{section.budget !== null && ` / ${section.budget}`} kcal
+                    </p>
                   </div>
+                  <div className="divide-y divide-slate-50">{section.entries.map(renderLogRow)}</div>
                 </div>
-                <div className="flex items-center gap-4">
-                  <span className={`font-black text-sm ${log.type === 'food' ? 'text-slate-900' : 'text-orange-500'}`}>
-                    {log.type === 'food' ? `-${log.calories}` : `+${log.calories}`}
-                  </span>
-                  <button onClick={() => setLogToDelete(log)} className="text-slate-200 hover:text-indigo-600 transition-all p-1">✕</button>
+              ))}
+              {activityLogs.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between">
+                    <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Exercise</p>
+                    <p className="text-orange-500 text-[9px] font-black uppercase tracking-widest">+{burned} kcal</p>
+                  </div>
+                  <div className="divide-y divide-slate-50">{activityLogs.map(renderLogRow)}</div>
                 </div>
+              )}
+            </div>
+          )}
+        </div>
+      </>)}
+
+      <Modal isOpen={isFoodModalOpen} onClose={closeEntryModal} title={logToEdit ? "Edit Intake" : "Log Intake"}>
+        <form onSubmit={(e) => { e.preventDefault(); handleSaveFood(); }} className="space-y-4">
+          <div className="relative">
+            <input type="text" placeholder="Item Name" autoComplete="off" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={foodName} onChange={(e) => setFoodName(e.target.value)} required />
+            {suggestions.length > 0 && (
+              <div className="absolute z-10 left-0 right-0 mt-1 bg-white border border-slate-100 rounded-xl shadow-xl divide-y divide-slate-50 overflow-hidden">
+                {suggestions.map(item => (
+                  <button key={item.id} type="button" onClick={() => applyFood(item)} className="w-full flex justify-between items-center px-5 py-3 text-left hover:bg-slate-50">
+                    <span className="text-slate-900 font-bold text-sm">{item.isFavorite && <span className="text-amber-400 mr-1">★</span>}{item.name}</span>
+                    <span className="text-slate-400 text-[9px] font-black uppercase">{item.calories} kcal</span>
+                  </button>
+                ))}
               </div>
+            )}
+          </div>
+          <input type="number" placeholder={MACRO_FIELDS.some(f => foodMacros[f.key] !== '') ? `Calories (${caloriesFromMacros({ protein: Number(foodMacros.protein), carbs: Number(foodMacros.carbs), fat: Number(foodMacros.fat) })} from macros)` : "Calories (kcal)"} className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={foodCalories} onChange={(e) => setFoodCalories(e.target.value)} required={MACRO_FIELDS.every(f => foodMacros[f.key] === '')} />
+          <div className="grid grid-cols-3 gap-3">
+            {MACRO_FIELDS.map(f => (
+              <input key={f.key} type="number" min="0" step="0.1" placeholder={`${f.label} (g)`} className="w-full px-3 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold text-sm placeholder:text-slate-300 outline-none focus:border-indigo-400" value={foodMacros[f.key]} onChange={(e) => setFoodMacros({ ...foodMacros, [f.key]: e.target.value })} />
             ))}
           </div>
-        )}
-      </div>
-
-      <Modal isOpen={isFoodModalOpen} onClose={() => setFoodModalOpen(false)} title="Log Intake">
-        <form onSubmit={(e) => { e.preventDefault(); onAddLog({ type: 'food', name: foodName, calories: Number(foodCalories) }); setFoodName(''); setFoodCalories(''); setFoodModalOpen(false); }} className="space-y-4">
-          <input type="text" placeholder="Item Name" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={foodName} onChange={(e) => setFoodName(e.target.value)} required />
-          <input type="number" placeholder="Calories (kcal)" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={foodCalories} onChange={(e) => setFoodCalories(e.target.value)} required />
-          <button type="submit" className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest shadow-xl">Add Entry</button>
+          <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" max={toDateTimeInputValue(Date.now())} value={entryTime} onChange={(e) => setEntryTime(e.target.value)} required />
+          <select className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={foodMeal || ''} onChange={(e) => setFoodMeal((e.target.value || null) as MealSlot | null)}>
+            <option value="">Auto ({MEAL_SLOTS.find(m => m.key === getMealSlotForTime(entryTime ? fromDateTimeInputValue(entryTime) : Date.now()))!.label})</option>
+            {MEAL_SLOTS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+          </select>
+          <button type="submit" className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest shadow-xl">{logToEdit ? 'Save Changes' : 'Add Entry'}</button>
         </form>
       </Modal>
 
-      <Modal isOpen={isActivityModalOpen} onClose={() => setActivityModalOpen(false)} title="Log Burn">
-        <form onSubmit={(e) => { e.preventDefault(); onAddLog({ type: 'activity', name: activityType, calories: Number(activityCalories), activityType }); setActivityCalories(''); setActivityModalOpen(false); }} className="space-y-4">
+      <Modal isOpen={isActivityModalOpen} onClose={closeEntryModal} title={logToEdit ? "Edit Burn" : "Log Burn"}>
+        <form onSubmit={(e) => { e.preventDefault(); handleSaveActivity(); }} className="space-y-4">
           <select className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={activityType} onChange={(e) => setActivityType(e.target.value as ActivityType)}>
             <option value="Walking">Walking</option>
             <option value="Running">Running</option>
             <option value="Biking">Biking</option>
             <option value="HIIT">HIIT</option>
             <option value="Daily Chores">Daily Chores</option>
+            <option value="Others">Others</option>
           </select>
+          {activityType === 'Others' && (
+            <input type="text" placeholder="Activity Name" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={activityName} onChange={(e) => setActivityName(e.target.value)} required />
+          )}
           <input type="number" placeholder="Calories Burned" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={activityCalories} onChange={(e) => setActivityCalories(e.target.value)} required />
-          <button type="submit" className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest shadow-xl">Add Entry</button>
+          <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" max={toDateTimeInputValue(Date.now())} value={entryTime} onChange={(e) => setEntryTime(e.target.value)} required />
+          <button type="submit" className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest shadow-xl">{logToEdit ? 'Save Changes' : 'Add Entry'}</button>
         </form>
       </Modal>
 
+      <SavedMealsModal isOpen={isMealsOpen} onClose={() => setMealsOpen(false)} meals={savedMeals} library={foodLibrary} onLogMeal={(meal: SavedMeal, servings: number) => onAddLogs(expandSavedMeal(meal, getDefaultEntryTime(), servings))} onSaveMeal={onSaveMeal} onDeleteMeal={onDeleteMeal} />
+
+      <FoodLibraryModal isOpen={isLibraryOpen} onClose={() => setLibraryOpen(false)} library={foodLibrary} onUpdateFood={onUpdateFood} onDeleteFood={onDeleteFood} />
+
       <Modal isOpen={!!logToDelete} onClose={() => setLogToDelete(null)} title="Delete Log?">
         <div className="flex gap-4">
           <button onClick={() => setLogToDelete(null)} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[9px] tracking-widest">Cancel</button>
@@ -263,95 +932,830 @@ const CaloriesTab: React.FC<{ logs: LogEntry[], dailyLimit: number, onAddLog: an
   );
 };
 
-const FastingTab: React.FC<{ fastingState: FastingState, fastingLogs: FastingLog[], onStartFast: any, onEndFast: any }> = ({ fastingState, fastingLogs, onStartFast, onEndFast }) => {
-  const [currentTime, setCurrentTime] = useState(Date.now());
-  const [isStartModalOpen, setStartModalOpen] = useState(false);
-  const [isEndModalOpen, setEndModalOpen] = useState(false);
-  const [customStartTime, setCustomStartTime] = useState('');
+const HEATMAP_WEEKS = 12;
 
-  useEffect(() => {
-    let interval: any;
-    if (fastingState.isActive) interval = setInterval(() => setCurrentTime(Date.now()), 1000);
-    return () => clearInterval(interval);
-  }, [fastingState.isActive]);
+const FastingHistory: React.FC<{ logs: FastingLog[], onSelect: any, onAdd: any, onBack: any }> = ({ logs, onSelect, onAdd, onBack }) => {
+  const [period, setPeriod] = useState<'week' | 'month'>('week');
 
-  const elapsedMs = fastingState.isActive && fastingState.startTime ? currentTime - fastingState.startTime : 0;
-  const elapsedHours = elapsedMs / (1000 * 60 * 60);
+  const streaks = useMemo(() => calculateStreaks(logs), [logs]);
+  const overall = useMemo(() => getOverallSummary(logs), [logs]);
+  const periods = useMemo(() => summarizeByPeriod(logs, period), [logs, period]);
+  const hoursByDay = useMemo(() => getFastingHoursByDay(logs), [logs]);
+  const goalMetDays = useMemo(() => getGoalMetDays(logs), [logs]);
+
+  // Columns are weeks (oldest first), rows are weekdays starting Monday.
+  const today = startOfDay(Date.now());
+  const lastMonday = startOfWeek(today);
+  const heatmapWeeks = Array.from({ length: HEATMAP_WEEKS }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => addDays(lastMonday, (w - HEATMAP_WEEKS + 1) * 7 + d)));
+
+  const heatColor = (day: number) => {
+    if (day > today) return 'bg-transparent';
+    const hours = hoursByDay.get(day) || 0;
+    if (goalMetDays.has(day)) return 'bg-indigo-600';
+    if (hours >= 12) return 'bg-indigo-400';
+    if (hours > 0) return 'bg-indigo-200';
+    return 'bg-slate-100';
+  };
+
+  const formatPeriod = (ts: number) => period === 'week'
+    ? `Week of ${formatInZone(ts, { month: 'short', day: 'numeric' })}`
+    : formatInZone(ts, { month: 'long', year: 'numeric' });
 
   return (
-    <div className="p-8 space-y-12">
-      <div className="flex flex-col items-center">
-        <CircularProgress percentage={fastingState.isActive ? Math.min(100, (elapsedHours/16)*100) : 0} label={fastingState.isActive ? formatTime(elapsedMs) : "00:00:00"} subLabel={fastingState.isActive ? getFastingStageName(elapsedHours) : "Inactive"} size={240} />
-        <button onClick={() => fastingState.isActive ? setEndModalOpen(true) : setStartModalOpen(true)} className={`mt-10 w-full py-6 rounded-[2rem] font-black uppercase text-[10px] tracking-[0.3em] transition-all shadow-2xl active:scale-95 ${fastingState.isActive ? 'bg-slate-900 text-white' : 'bg-indigo-600 text-white'}`}>
-          {fastingState.isActive ? 'Stop Fasting' : 'Start Fasting'}
-        </button>
+    <div className="space-y-12 pb-24">
+      <div className="flex items-center justify-between">
+        <button onClick={onBack} className="text-slate-400 text-[9px] font-black uppercase tracking-widest">‹ Back</button>
+        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Fasting History</h3>
+        <button onClick={onAdd} className="text-indigo-600 text-[9px] font-black uppercase tracking-widest">+ Past Fast</button>
       </div>
 
-      <div className="space-y-6">
-        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Metabolic Progress</h3>
-        <div className="space-y-2">
-          {FASTING_STAGES.map((stage) => {
-            const isActive = elapsedHours >= stage.hours;
-            return (
-              <div key={stage.name} className={`flex items-center gap-6 p-5 rounded-3xl border transition-all ${isActive ? 'border-indigo-100 bg-indigo-50/20 shadow-sm' : 'border-slate-50 opacity-40'}`}>
-                <div className="flex-1">
-                  <p className={`text-[11px] font-black uppercase tracking-wider ${isActive ? 'text-indigo-600' : 'text-slate-400'}`}>{stage.name}</p>
-                  <p className="text-[10px] font-bold text-slate-400 uppercase">{stage.desc}</p>
-                </div>
-                {isActive && <div className="w-1.5 h-1.5 rounded-full bg-indigo-600" />}
-              </div>
-            );
-          })}
+      <div className="grid grid-cols-2 gap-4">
+        {[
+          { label: 'Current Streak', value: `${streaks.current}d` },
+          { label: 'Longest Streak', value: `${streaks.longest}d` },
+          { label: 'Total Fasts', value: overall.fasts },
+          { label: 'Total Hours', value: overall.totalHours.toFixed(0) },
+          { label: 'Average', value: `${overall.averageHours.toFixed(1)}h` },
+          { label: 'Longest', value: `${overall.longestHours.toFixed(1)}h` },
+        ].map(stat => (
+          <div key={stat.label} className="p-5 rounded-3xl bg-slate-50 border border-slate-100">
+            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mb-1">{stat.label}</p>
+            <p className="text-2xl font-black text-slate-900 tracking-tighter">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Last {HEATMAP_WEEKS} Weeks</h3>
+        <div className="flex gap-1 justify-between">
+          {heatmapWeeks.map((week, w) => (
+            <div key={w} className="flex flex-col gap-1 flex-1">
+              {week.map(day => <div key={day} title={`${formatInZone(day, { dateStyle: 'medium' })} · ${(hoursByDay.get(day) || 0).toFixed(1)}h`} className={`aspect-square rounded-[3px] ${heatColor(day)}`} />)}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2 justify-end text-slate-400 text-[9px] font-black uppercase tracking-widest">
+          <span>Less</span>
+          {['bg-slate-100', 'bg-indigo-200', 'bg-indigo-400', 'bg-indigo-600'].map(c => <div key={c} className={`w-2.5 h-2.5 rounded-[3px] ${c}`} />)}
+          <span>Goal Met</span>
         </div>
       </div>
 
-      <div className="space-y-4 pb-24">
-        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Recent Sessions</h3>
-        {fastingLogs.length === 0 ? (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">By {period}</h3>
+          <div className="flex gap-2">
+            {(['week', 'month'] as const).map(p => (
+              <button key={p} onClick={() => setPeriod(p)} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${period === p ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>{p}</button>
+            ))}
+          </div>
+        </div>
+        {periods.length === 0 ? (
           <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No history yet</div>
         ) : (
-          <div className="space-y-3">
-            {fastingLogs.slice(0, 5).map(log => (
-              <div key={log.id} className="p-4 rounded-2xl bg-slate-50 border border-slate-100 flex justify-between items-center">
+          <div className="divide-y divide-slate-50">
+            {periods.map(p => (
+              <div key={p.periodStart} className="py-4 flex justify-between items-center">
                 <div>
-                  <p className="text-slate-900 font-bold text-sm">{formatTime(log.duration)}</p>
-                  <p className="text-slate-400 text-[9px] font-bold uppercase">{new Date(log.startTime).toLocaleDateString()}</p>
+                  <p className="text-slate-900 font-bold text-sm">{formatPeriod(p.periodStart)}</p>
+                  <p className="text-slate-400 text-[9px] font-bold uppercase">{p.fasts} fasts · avg {p.averageHours.toFixed(1)}h · longest {p.longestHours.toFixed(1)}h</p>
                 </div>
-                <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Logged</p>
+                <p className="text-slate-900 font-black text-sm">{p.totalHours.toFixed(0)}h</p>
               </div>
             ))}
           </div>
         )}
       </div>
 
+      <div className="space-y-4">
+        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">All Sessions</h3>
+        <div className="space-y-3">
+          {logs.map(log => (
+            <button key={log.id} onClick={() => onSelect(log)} className="w-full text-left p-4 rounded-2xl bg-slate-50 border border-slate-100 flex justify-between items-center">
+              <div>
+                <p className="text-slate-900 font-bold text-sm">{formatTime(log.duration)}</p>
+                <p className="text-slate-400 text-[9px] font-bold uppercase">{formatDateTime(log.startTime)} → {formatDateTime(log.endTime)}</p>
+              </div>
+              <p className={`text-[9px] font-black uppercase tracking-widest ${isGoalMet(log) ? 'text-emerald-500' : 'text-slate-400'}`}>{isGoalMet(log) ? 'Goal Met' : 'Short'}</p>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const FastingTab: React.FC<{ fastingState: FastingState, fastingLogs: FastingLog[], fastingPlan: FastingPlan | null, defaultProtocol: FastingProtocol, defaultCustomHours: number, onStartFast: any, onEndFast: any, onSaveFast: any, onDeleteFast: any }> = ({ fastingState, fastingLogs, fastingPlan, defaultProtocol, defaultCustomHours, onStartFast, onEndFast, onSaveFast, onDeleteFast }) => {
+  const [currentTime, setCurrentTime] = useState(Date.now());
+  const [isStartModalOpen, setStartModalOpen] = useState(false);
+  const [isEndModalOpen, setEndModalOpen] = useState(false);
+  const [customStartTime, setCustomStartTime] = useState('');
+  const [protocol, setProtocol] = useState<FastingProtocol>(defaultProtocol);
+  const [customHours, setCustomHours] = useState(String(defaultCustomHours));
+  const [customEndTime, setCustomEndTime] = useState('');
+  const [isSessionModalOpen, setSessionModalOpen] = useState(false);
+  const [sessionToEdit, setSessionToEdit] = useState<FastingLog | null>(null);
+  const [sessionToDelete, setSessionToDelete] = useState<FastingLog | null>(null);
+  const [sessionStart, setSessionStart] = useState('');
+  const [sessionEnd, setSessionEnd] = useState('');
+  const [fastError, setFastError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  useEffect(() => {
+    let interval: any;
+    // The plan countdown needs the clock even when no fast is running.
+    if (fastingState.isActive || fastingPlan) interval = setInterval(() => setCurrentTime(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [fastingState.isActive, fastingPlan]);
+
+  const elapsedMs = fastingState.isActive && fastingState.startTime ? currentTime - fastingState.startTime : 0;
+  const elapsedHours = elapsedMs / (1000 * 60 * 60);
+  const targetHours = fastingState.targetHours || DEFAULT_FASTING_HOURS;
+  const isGoalReached = fastingState.isActive && elapsedHours >= targetHours;
+
+  const activeStart = fastingState.isActive ? fastingState.startTime : null;
+
+  const planEvent = fastingPlan && !fastingState.isActive ? getNextPlanEvent(fastingPlan, currentTime) : null;
+  const adherence = useMemo(() => fastingPlan ? calculatePlanAdherence(fastingPlan, fastingLogs, addDays(Date.now(), -ADHERENCE_WINDOW_DAYS), Date.now()) : null, [fastingPlan, fastingLogs]);
+
+  const openStartModal = () => {
+    setProtocol(defaultProtocol);
+    setCustomHours(String(defaultCustomHours));
+    setCustomStartTime('');
+    setFastError(null);
+    setStartModalOpen(true);
+  };
+
+  const openEndModal = () => {
+    setCustomEndTime(toDateTimeInputValue(Date.now()));
+    setFastError(null);
+    setEndModalOpen(true);
+  };
+
+  const openSessionModal = (log: FastingLog | null = null) => {
+    const end = log ? log.endTime : Date.now();
+    setSessionToEdit(log);
+    setProtocol(log ? log.protocol || 'custom' : defaultProtocol);
+    setCustomHours(String(log ? log.targetHours || DEFAULT_FASTING_HOURS : defaultCustomHours));
+    setSessionStart(toDateTimeInputValue(log ? log.startTime : end - getProtocolHours(defaultProtocol, defaultCustomHours) * 3600000));
+    setSessionEnd(toDateTimeInputValue(end));
+    setFastError(null);
+    setSessionModalOpen(true);
+  };
+
+  const handleStart = () => {
+    const startTime = customStartTime ? fromDateTimeInputValue(customStartTime) : Date.now();
+    const error = validateFastingSession({ startTime, endTime: Math.max(startTime + 1, Date.now()) }, fastingLogs, null);
+    if (error) return setFastError(error);
+    onStartFast(startTime, protocol, getProtocolHours(protocol, Number(customHours)));
+    setStartModalOpen(false);
+  };
+
+  const handleEnd = () => {
+    if (!fastingState.startTime) return;
+    const endTime = customEndTime ? fromDateTimeInputValue(customEndTime) : Date.now();
+    const error = validateFastingSession({ startTime: fastingState.startTime, endTime }, fastingLogs, null);
+    if (error) return setFastError(error);
+    onEndFast(endTime);
+    setEndModalOpen(false);
+  };
+
+  const handleSaveSession = () => {
+    const startTime = fromDateTimeInputValue(sessionStart);
+    const endTime = fromDateTimeInputValue(sessionEnd);
+    const error = validateFastingSession({ id: sessionToEdit?.id, startTime, endTime }, fastingLogs, activeStart);
+    if (error) return setFastError(error);
+    onSaveFast(createFastingLog(sessionToEdit ? sessionToEdit.id : Math.random().toString(), startTime, endTime, protocol, getProtocolHours(protocol, Number(customHours))));
+    setSessionModalOpen(false);
+  };
+
+  const protocolPicker = (
+    <>
+      <div className="grid grid-cols-4 gap-2">
+        {FASTING_PROTOCOLS.map(p => (
+          <button key={p.id} onClick={() => setProtocol(p.id)} className={`py-3 rounded-xl text-[9px] font-black uppercase tracking-widest border transition-all ${protocol === p.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>{p.label}</button>
+        ))}
+      </div>
+      {protocol === 'custom' ? (
+        <input type="number" min="1" max="168" placeholder="Target hours" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={customHours} onChange={(e) => setCustomHours(e.target.value)} />
+      ) : (
+        <p className="text-slate-400 text-[9px] font-bold uppercase tracking-widest">{FASTING_PROTOCOLS.find(p => p.id === protocol)!.desc}</p>
+      )}
+    </>
+  );
+
+  const errorMessage = fastError && <p className="text-red-500 text-[10px] font-black uppercase tracking-widest">{fastError}</p>;
+
+  return (
+    <div className="p-8 space-y-12">
+      {showHistory ? (
+        <FastingHistory logs={fastingLogs} onSelect={openSessionModal} onAdd={() => openSessionModal()} onBack={() => setShowHistory(false)} />
+      ) : (<>
+        <div className="flex flex-col items-center">
+          <CircularProgress percentage={fastingState.isActive ? Math.min(100, (elapsedHours / targetHours) * 100) : 0} label={fastingState.isActive ? formatTime(elapsedMs) : "00:00:00"} subLabel={fastingState.isActive ? getFastingStageName(elapsedHours) : "Inactive"} size={240} />
+          {fastingState.isActive && (
+            <p className={`mt-6 text-[10px] font-black uppercase tracking-[0.3em] ${isGoalReached ? 'text-emerald-500' : 'text-slate-400'}`}>
+              {getProtocolLabel(fastingState.protocol, targetHours)} · {isGoalReached ? 'Goal Reached' : `Goal ${targetHours}h`}
+            </p>
+          )}
+          {planEvent && (
+            <p className="mt-6 text-[10px] font-black uppercase tracking-[0.3em] text-slate-400">
+              Window {planEvent.type} in {formatCountdown(planEvent.at - currentTime)}
+            </p>
+          )}
+          <button onClick={() => fastingState.isActive ? openEndModal() : openStartModal()} className={`mt-10 w-full py-6 rounded-[2rem] font-black uppercase text-[10px] tracking-[0.3em] transition-all shadow-2xl active:scale-95 ${fastingState.isActive ? 'bg-slate-900 text-white' : 'bg-indigo-600 text-white'}`}>
+            {fastingState.isActive ? 'Stop Fasting' : 'Start Fasting'}
+          </button>
+        </div>
+
+        {adherence && adherence.planned > 0 && (
+          <div className="p-5 rounded-3xl border border-slate-100 bg-slate-50 flex justify-between items-center">
+            <div>
+              <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Plan Adherence · {ADHERENCE_WINDOW_DAYS} Days</p>
+              <p className="text-slate-900 font-bold text-sm">{adherence.followed} of {adherence.planned} planned fasts</p>
+            </div>
+            <p className="text-2xl font-black text-indigo-600">{Math.round((adherence.followed / adherence.planned) * 100)}%</p>
+          </div>
+        )}
+
+        <div className="space-y-6">
+          <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Metabolic Progress</h3>
+          <div className="space-y-2">
+            {FASTING_STAGES.map((stage) => {
+              const isActive = elapsedHours >= stage.hours;
+              return (
+                <div key={stage.name} className={`flex items-center gap-6 p-5 rounded-3xl border transition-all ${isActive ? 'border-indigo-100 bg-indigo-50/20 shadow-sm' : 'border-slate-50 opacity-40'}`}>
+                  <div className="flex-1">
+                    <p className={`text-[11px] font-black uppercase tracking-wider ${isActive ? 'text-indigo-600' : 'text-slate-400'}`}>{stage.name}</p>
+                    <p className="text-[10px] font-bold text-slate-400 uppercase">{stage.desc}</p>
+                  </div>
+                  {isActive && <div className="w-1.5 h-1.5 rounded-full bg-indigo-600" />}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="space-y-4 pb-24">
+          <div className="flex items-center justify-between">
+            <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Recent Sessions</h3>
+            <div className="flex gap-4">
+              <button onClick={() => openSessionModal()} className="text-indigo-600 text-[9px] font-black uppercase tracking-widest">+ Past Fast</button>
+              {fastingLogs.length > 0 && <button onClick={() => setShowHistory(true)} className="text-indigo-600 text-[9px] font-black uppercase tracking-widest">View All</button>}
+            </div>
+          </div>
+          {fastingLogs.length === 0 ? (
+            <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No history yet</div>
+          ) : (
+            <div className="space-y-3">
+              {fastingLogs.slice(0, 5).map(log => (
+                <button key={log.id} onClick={() => openSessionModal(log)} className="w-full text-left p-4 rounded-2xl bg-slate-50 border border-slate-100 flex justify-between items-center">
+                  <div>
+                    <p className="text-slate-900 font-bold text-sm">{formatTime(log.duration)}</p>
+                    <p className="text-slate-400 text-[9px] font-bold uppercase">{formatInZone(log.startTime, { dateStyle: 'medium' })}{log.targetHours && ` · ${getProtocolLabel(log.protocol, log.targetHours)}`}</p>
+                    {log.breakFastMeal && <p className="text-slate-300 text-[9px] font-bold">Broken with {log.breakFastMeal.name} · {log.breakFastMeal.calories} kcal</p>}
+                  </div>
+                  <p className={`text-[9px] font-black uppercase tracking-widest ${isGoalMet(log) ? 'text-emerald-500' : 'text-slate-400'}`}>{isGoalMet(log) ? 'Goal Met' : 'Short'}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </>)}
+
       <Modal isOpen={isStartModalOpen} onClose={() => setStartModalOpen(false)} title="Fast Start Time">
         <div className="space-y-6 text-center">
+          {protocolPicker}
           <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Confirm your start time:</p>
-          <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={customStartTime} onChange={(e) => setCustomStartTime(e.target.value)} />
-          <button onClick={() => { onStartFast(customStartTime ? new Date(customStartTime).getTime() : Date.now()); setStartModalOpen(false); }} className="w-full bg-slate-900 text-white py-5 rounded-xl font-black uppercase text-[10px] tracking-widest">Start Now</button>
+          <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" max={toDateTimeInputValue(Date.now())} value={customStartTime} onChange={(e) => setCustomStartTime(e.target.value)} />
+          {errorMessage}
+          <button onClick={handleStart} className="w-full bg-slate-900 text-white py-5 rounded-xl font-black uppercase text-[10px] tracking-widest">Start Now</button>
         </div>
       </Modal>
 
       <Modal isOpen={isEndModalOpen} onClose={() => setEndModalOpen(false)} title="Finish Session?">
+        <div className="space-y-6 text-center">
+          <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest">Confirm your end time:</p>
+          <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" min={fastingState.startTime ? toDateTimeInputValue(fastingState.startTime) : undefined} max={toDateTimeInputValue(Date.now())} value={customEndTime} onChange={(e) => setCustomEndTime(e.target.value)} />
+          {errorMessage}
+          <div className="flex gap-4">
+            <button onClick={() => setEndModalOpen(false)} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[10px] tracking-widest">Cancel</button>
+            <button onClick={handleEnd} className="flex-1 py-4 bg-indigo-600 text-white rounded-xl font-black uppercase text-[10px] tracking-widest">Log Fast</button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal isOpen={isSessionModalOpen} onClose={() => setSessionModalOpen(false)} title={sessionToEdit ? "Edit Fast" : "Add Past Fast"}>
+        <div className="space-y-4 text-center">
+          {protocolPicker}
+          <div className="space-y-1 text-left">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Started</label>
+            <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" max={toDateTimeInputValue(Date.now())} value={sessionStart} onChange={(e) => setSessionStart(e.target.value)} />
+          </div>
+          <div className="space-y-1 text-left">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Ended</label>
+            <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" max={toDateTimeInputValue(Date.now())} value={sessionEnd} onChange={(e) => setSessionEnd(e.target.value)} />
+          </div>
+          {errorMessage}
+          <div className="flex gap-4">
+            {sessionToEdit && <button onClick={() => { setSessionToDelete(sessionToEdit); setSessionModalOpen(false); }} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[10px] tracking-widest">Delete</button>}
+            <button onClick={handleSaveSession} className="flex-1 py-4 bg-slate-900 text-white rounded-xl font-black uppercase text-[10px] tracking-widest">{sessionToEdit ? 'Save Changes' : 'Add Fast'}</button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal isOpen={!!sessionToDelete} onClose={() => setSessionToDelete(null)} title="Delete Fast?">
+        <div className="flex gap-4">
+          <button onClick={() => setSessionToDelete(null)} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[9px] tracking-widest">Cancel</button>
+          <button onClick={() => { if (sessionToDelete) onDeleteFast(sessionToDelete.id); setSessionToDelete(null); }} className="flex-1 py-4 bg-indigo-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest">Delete</button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+const WEIGHT_RANGES = [30, 90, 365];
+
+const WeightTab: React.FC<{ weights: WeightEntry[], goalWeight: number | null, profileWeight: number, maintenance: number | null, intake: IntakeAverage | null, onSaveWeight: any, onDeleteWeight: any }> = ({ weights, goalWeight, profileWeight, maintenance, intake, onSaveWeight, onDeleteWeight }) => {
+  const [range, setRange] = useState(30);
+  const [isModalOpen, setModalOpen] = useState(false);
+  const [entryToEdit, setEntryToEdit] = useState<WeightEntry | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<WeightEntry | null>(null);
+  const [weightValue, setWeightValue] = useState('');
+  const [weightDate, setWeightDate] = useState('');
+
+  const now = Date.now();
+  const points = useMemo(() => getTrendInRange(weights, range, now), [weights, range]);
+  const latest = points[points.length - 1];
+  const trendChange = latest && points.length > 1 ? latest.trend - points[0].trend : 0;
+  const sortedEntries = useMemo(() => [...weights].sort((a, b) => b.timestamp - a.timestamp), [weights]);
+  const currentWeight = latest ? latest.trend : profileWeight;
+  const projectedDate = goalWeight && maintenance !== null && intake ? projectGoalDate(currentWeight, goalWeight, maintenance, intake.average, now) : null;
+
+  const openModal = (entry: WeightEntry | null = null) => {
+    setEntryToEdit(entry);
+    setWeightValue(entry ? String(entry.weight) : latest ? String(latest.weight) : '');
+    setWeightDate(toDateTimeInputValue(entry ? entry.timestamp : now));
+    setModalOpen(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSaveWeight({ id: entryToEdit ? entryToEdit.id : Math.random().toString(), timestamp: fromDateTimeInputValue(weightDate), weight: Number(weightValue) });
+    setModalOpen(false);
+  };
+
+  return (
+    <div className="p-8 space-y-12 pb-24">
+      <div className="flex flex-col items-center">
+        <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest mb-1">Trend Weight</p>
+        <p className="text-6xl font-black tracking-tighter text-indigo-600">{latest ? latest.trend.toFixed(1) : '--'}<span className="text-xs font-black text-slate-300 ml-2">kg</span></p>
+        {latest && points.length > 1 && (
+          <p className={`mt-2 text-[10px] font-black uppercase tracking-widest ${trendChange <= 0 ? 'text-emerald-500' : 'text-orange-500'}`}>
+            {trendChange > 0 ? '+' : ''}{trendChange.toFixed(1)} kg in {range} days
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex gap-2 justify-center">
+          {WEIGHT_RANGES.map(days => (
+            <button key={days} onClick={() => setRange(days)} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${range === days ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>{days}d</button>
+          ))}
+        </div>
+        {points.length === 0 ? (
+          <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No weigh-ins in this range</div>
+        ) : (
+          <WeightChart points={points} from={addDays(startOfDay(now), 1 - range)} to={now} />
+        )}
+      </div>
+
+      {goalWeight && (
+        <div className="bg-slate-50 p-6 rounded-[2rem] border border-slate-100 flex items-center justify-between">
+          <div>
+            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Goal</p>
+            <p className="text-2xl font-black text-slate-900">{goalWeight.toFixed(1)}<span className="text-[10px] text-slate-300 ml-1">kg</span></p>
+            <p className="text-slate-400 text-[9px] font-bold uppercase">{Math.abs(currentWeight - goalWeight).toFixed(1)} kg to go</p>
+          </div>
+          <div className="text-right">
+            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Projected</p>
+            {!intake || maintenance === null ? (
+              <p className="text-slate-300 text-[10px] font-black uppercase tracking-widest">Log meals to project</p>
+            ) : projectedDate ? (
+              <p className="text-lg font-black text-indigo-600">{formatInZone(projectedDate, { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+            ) : (
+              <p className="text-orange-500 text-[10px] font-black uppercase tracking-widest">Not on track</p>
+            )}
+            {intake && <p className="text-slate-400 text-[9px] font-bold uppercase">Avg {intake.average} kcal · {intake.days}d logged</p>}
+          </div>
+        </div>
+      )}
+
+      <button onClick={() => openModal()} className="w-full flex items-center justify-center py-5 bg-slate-900 text-white rounded-[1.5rem] font-black uppercase text-[10px] tracking-widest active:scale-95 transition-all">
+        + Weigh-In
+      </button>
+
+      <div className="space-y-4">
+        <h3 className="text-slate-900 text-[10px] font-black uppercase tracking-[0.3em]">Weigh-Ins</h3>
+        {sortedEntries.length === 0 ? (
+          <div className="py-10 text-center text-slate-300 font-bold uppercase text-[9px] tracking-widest">No entries yet</div>
+        ) : (
+          <div className="divide-y divide-slate-50">
+            {sortedEntries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between py-4">
+                <button onClick={() => openModal(entry)} className="text-left">
+                  <p className="text-slate-900 font-bold text-sm">{entry.weight.toFixed(1)} kg</p>
+                  <p className="text-slate-400 text-[9px] font-bold uppercase">{formatDateTime(entry.timestamp)}</p>
+                </button>
+                <button onClick={() => setEntryToDelete(entry)} className="text-slate-200 hover:text-indigo-600 transition-all p-1">✕</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Modal isOpen={isModalOpen} onClose={() => setModalOpen(false)} title={entryToEdit ? "Edit Weigh-In" : "Log Weigh-In"}>
+        <form onSubmit={handleSave} className="space-y-4">
+          <input type="number" step="0.1" min="20" placeholder="Weight (kg)" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold placeholder:text-slate-300 outline-none focus:border-indigo-400" value={weightValue} onChange={(e) => setWeightValue(e.target.value)} required />
+          <input type="datetime-local" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" max={toDateTimeInputValue(now)} value={weightDate} onChange={(e) => setWeightDate(e.target.value)} required />
+          <button type="submit" className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest shadow-xl">{entryToEdit ? 'Save Changes' : 'Add Entry'}</button>
+        </form>
+      </Modal>
+
+      <Modal isOpen={!!entryToDelete} onClose={() => setEntryToDelete(null)} title="Delete Weigh-In?">
         <div className="flex gap-4">
-          <button onClick={() => setEndModalOpen(false)} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[10px] tracking-widest">Cancel</button>
-          <button onClick={() => { onEndFast(); setEndModalOpen(false); }} className="flex-1 py-4 bg-indigo-600 text-white rounded-xl font-black uppercase text-[10px] tracking-widest">Log Fast</button>
+          <button onClick={() => setEntryToDelete(null)} className="flex-1 py-4 bg-slate-50 text-slate-400 rounded-xl font-black uppercase text-[9px] tracking-widest">Cancel</button>
+          <button onClick={() => { if (entryToDelete) onDeleteWeight(entryToDelete.id); setEntryToDelete(null); }} className="flex-1 py-4 bg-indigo-600 text-white rounded-xl font-black uppercase text-[9px] tracking-widest">Delete</button>
         </div>
       </Modal>
     </div>
   );
 };
 
-const SettingsTab: React.FC<{ profile: UserProfile, onSaveProfile: any }> = ({ profile, onSaveProfile }) => {
+const CSV_COLUMNS: { key: keyof Omit<ColumnMapping, 'dateFormat' | 'logicalDay'>, label: string, required?: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'time', label: 'Time' },
+  { key: 'name', label: 'Food Name', required: true },
+  { key: 'calories', label: 'Calories', required: true },
+  { key: 'meal', label: 'Meal' },
+  { key: 'type', label: 'Food / Activity' }
+];
+
+const CsvImportModal: React.FC<{ isOpen: boolean, onClose: () => void, logs: LogEntry[], onImportLogs: any }> = ({ isOpen, onClose, logs, onImportLogs }) => {
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>(EMPTY_MAPPING);
+  const [presetId, setPresetId] = useState('');
+  const [imported, setImported] = useState<CsvImportResult | null>(null);
+
+  const headers = rows ? rows[0] || [] : [];
+  const preview = useMemo(() => rows ? mapCsvRows(rows, mapping, logs) : null, [rows, mapping, logs]);
+
+  const handleClose = () => {
+    setRows(null);
+    setImported(null);
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const parsed = parseCsv(await file.text());
+    const preset = detectPreset(parsed[0] || []);
+    setRows(parsed);
+    setPresetId(preset ? preset.id : '');
+    setMapping(preset ? preset.mapping : EMPTY_MAPPING);
+  };
+
+  const handleImport = () => {
+    if (!preview) return;
+    onImportLogs(preview.entries);
+    setImported(preview);
+    setRows(null);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import CSV">
+      {imported ? (
+        <div className="space-y-6">
+          <div className="flex justify-around text-center">
+            <div><p className="text-2xl font-black text-emerald-500">{imported.entries.length}</p><p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Added</p></div>
+            <div><p className="text-2xl font-black text-slate-400">{imported.duplicates}</p><p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Duplicates</p></div>
+            <div><p className="text-2xl font-black text-red-500">{imported.errors.length}</p><p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Errors</p></div>
+          </div>
+          {imported.errors.length > 0 && (
+            <button onClick={() => downloadFile('selflove-import-errors.csv', toCsv([['Row', 'Error'], ...imported.errors.map(e => [e.line, e.message])]), 'text/csv;charset=utf-8')} className="w-full py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest">Download Error Report</button>
+          )}
+          <button onClick={handleClose} className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest">Done</button>
+        </div>
+      ) : !rows ? (
+        <label className="block py-10 bg-slate-50 border border-dashed border-slate-200 rounded-xl text-center cursor-pointer">
+          <span className="text-slate-400 font-black uppercase text-[9px] tracking-widest">Choose a CSV file</span>
+          <input type="file" accept="text/csv,.csv,.txt" className="hidden" onChange={handleFile} />
+        </label>
+      ) : (
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto custom-scrollbar">
+          <select className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={presetId} onChange={e => { const preset = CSV_PRESETS.find(p => p.id === e.target.value); setPresetId(e.target.value); if (preset) setMapping(preset.mapping); }}>
+            <option value="">Custom columns</option>
+            {CSV_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <div className="grid grid-cols-2 gap-3">
+            {CSV_COLUMNS.map(c => (
+              <div key={c.key} className="space-y-1">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">{c.label}{c.required && ' *'}</label>
+                <select className="w-full px-3 py-3 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 text-xs font-bold outline-none" value={mapping[c.key]} onChange={e => { setPresetId(''); setMapping({ ...mapping, [c.key]: e.target.value }); }}>
+                  <option value="">—</option>
+                  {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </div>
+            ))}
+            <div className="space-y-1 col-span-2">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Date Format</label>
+              <select className="w-full px-3 py-3 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 text-xs font-bold outline-none" value={mapping.dateFormat} onChange={e => setMapping({ ...mapping, dateFormat: e.target.value as DateFormat })}>
+                {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {preview && (
+            <>
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                <span className="text-emerald-500">{preview.entries.length} ready</span> · {preview.duplicates} duplicates · <span className={preview.errors.length ? 'text-red-500' : ''}>{preview.errors.length} errors</span>
+              </p>
+              <div className="divide-y divide-slate-50">
+                {preview.entries.slice(0, 5).map((entry, i) => (
+                  <div key={i} className="flex justify-between py-2">
+                    <div>
+                      <p className="text-slate-900 font-bold text-sm">{entry.name}</p>
+                      <p className="text-slate-400 text-[9px] font-bold uppercase">{formatDateTime(entry.timestamp)}{entry.meal && ` · ${entry.meal}`}{entry.type === 'activity' && ' · Burn'}</p>
+                    </div>
+                    <span className="text-slate-900 font-black text-sm">{entry.calories}</span>
+                  </div>
+                ))}
+              </div>
+              {preview.errors.slice(0, 5).map(e => <p key={e.line} className="text-[9px] font-bold uppercase text-red-500">Row {e.line}: {e.message}</p>)}
+              {preview.errors.length > 5 && <p className="text-[9px] font-bold uppercase text-red-300">+{preview.errors.length - 5} more in the error report</p>}
+            </>
+          )}
+
+          <button onClick={handleImport} disabled={!preview || preview.entries.length === 0} className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest shadow-xl disabled:opacity-30">Import {preview ? preview.entries.length : 0} Entries</button>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+const CsvExportSection: React.FC<{ logs: LogEntry[], fastingLogs: FastingLog[], onImportLogs: any }> = ({ logs, fastingLogs, onImportLogs }) => {
+  const [isImportOpen, setImportOpen] = useState(false);
+  const today = startOfDay(Date.now());
+  const [from, setFrom] = useState(toDateInputValue(addDays(today, -29)));
+  const [to, setTo] = useState(toDateInputValue(today));
+
+  const exportCsv = (kind: 'logs' | 'fasting') => {
+    const start = fromDateInputValue(from);
+    const end = addDays(fromDateInputValue(to), 1);
+    const csv = kind === 'logs' ? buildLogsCsv(logs, start, end) : buildFastingCsv(fastingLogs, start, end, getFastingStageName);
+    downloadFile(`selflove-${kind}-${from}-to-${to}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100 space-y-4">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Spreadsheets</span>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">From</label>
+          <input type="date" className="w-full px-4 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" max={to} value={from} onChange={e => e.target.value && setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">To</label>
+          <input type="date" className="w-full px-4 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" min={from} max={toDateInputValue(today)} value={to} onChange={e => e.target.value && setTo(e.target.value)} />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <button onClick={() => exportCsv('logs')} className="py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Food & Activity CSV</button>
+        <button onClick={() => exportCsv('fasting')} className="py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Fasting CSV</button>
+      </div>
+      <button onClick={() => setImportOpen(true)} className="w-full py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Import From Another Tracker</button>
+
+      <CsvImportModal isOpen={isImportOpen} onClose={() => setImportOpen(false)} logs={logs} onImportLogs={onImportLogs} />
+    </div>
+  );
+};
+
+const BackupSection: React.FC<{ data: BackupData, onImport: any }> = ({ data, onImport }) => {
+  const [pending, setPending] = useState<ParsedBackup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const handleExport = () => downloadFile(getBackupFileName(), JSON.stringify(createBackup(data), null, 2), 'application/json');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseBackup(await file.text());
+    setError(result.error);
+    setPending(result.backup);
+  };
+
+  const handleImport = (mode: ImportMode) => {
+    if (!pending) return;
+    const result = applyBackup(data, pending, mode);
+    onImport(result.data);
+    setReport(result.report);
+    setPending(null);
+  };
+
+  const collections = Object.keys(COLLECTION_LABELS) as (keyof typeof COLLECTION_LABELS)[];
+
+  return (
+    <div className="pt-4 border-t border-slate-100 space-y-4">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Backup & Restore</span>
+      <div className="grid grid-cols-2 gap-4">
+        <button onClick={handleExport} className="py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Export JSON</button>
+        <label className="py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest text-center cursor-pointer active:scale-95 transition-all">
+          Import JSON
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+        </label>
+      </div>
+      {error && <p className="text-[9px] font-black uppercase tracking-widest text-red-500">{error}</p>}
+
+      <Modal isOpen={!!pending} onClose={() => setPending(null)} title="Import Backup">
+        {pending && (
+          <div className="space-y-6">
+            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Exported {pending.exportedAt ? formatDateTime(pending.exportedAt) : 'at an unknown time'}</p>
+            <div className="divide-y divide-slate-50">
+              {collections.map(c => (
+                <div key={c} className="flex justify-between py-2 text-sm">
+                  <span className="text-slate-900 font-bold">{COLLECTION_LABELS[c]}</span>
+                  <span className="text-slate-400 font-bold">{pending.collections[c].length}{pending.rejected[c] > 0 && <span className="text-red-500"> · {pending.rejected[c]} invalid</span>}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-4">
+              <button onClick={() => handleImport('merge')} className="flex-1 py-4 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest">Merge</button>
+              <button onClick={() => handleImport('replace')} className="flex-1 py-4 bg-red-50 text-red-500 rounded-xl font-black uppercase text-[9px] tracking-widest">Replace All</button>
+            </div>
+            <p className="text-slate-300 text-[9px] font-bold uppercase tracking-widest text-center">Merge keeps your data and adds new entries. Replace overwrites this device.</p>
+          </div>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!report} onClose={() => setReport(null)} title="Import Complete">
+        {report && (
+          <div className="space-y-6">
+            <div className="divide-y divide-slate-50">
+              {collections.map(c => (
+                <div key={c} className="flex justify-between py-2 text-sm">
+                  <span className="text-slate-900 font-bold">{COLLECTION_LABELS[c]}</span>
+                  <span className="text-[10px] font-black uppercase">
+                    <span className="text-emerald-500">+{report[c].added}</span>
+                    {report[c].skipped > 0 && <span className="text-slate-400"> · {report[c].skipped} skipped</span>}
+                    {report[c].rejected > 0 && <span className="text-red-500"> · {report[c].rejected} rejected</span>}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Profile {report.profile}</p>
+            <button onClick={() => setReport(null)} className="w-full bg-slate-900 text-white py-4 rounded-xl font-black uppercase text-[10px] tracking-widest">Done</button>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
+
+// Shown instead of the app when stored data can't be loaded, so nothing is overwritten.
+const StorageRecovery: React.FC<{ error: LoadFailure, onKeepReadable: any, onStartFresh: any, onRetry: any }> = ({ error, onKeepReadable, onStartFresh, onRetry }) => {
+  const [confirmFresh, setConfirmFresh] = useState(false);
+
+  const handleDownload = () => downloadFile(`selflove-raw-data-${toDateInputValue(Date.now())}.json`, JSON.stringify(error.raw, null, 2), 'application/json');
+
+  return (
+    <div className="min-h-screen bg-white flex flex-col justify-center max-w-md mx-auto px-10 py-16 space-y-8 text-slate-900">
+      <div className="space-y-3">
+        <h1 className="text-3xl font-black tracking-tighter leading-none">{error.problem === 'newer' ? 'Update Needed' : error.problem === 'unavailable' ? 'Storage Unavailable' : "Some Data Can't Be Read"}</h1>
+        <p className="text-slate-400 text-sm font-bold">
+          {error.problem === 'newer'
+            ? 'Your data was saved by a newer version of SelfLove. Reload once the update arrives; nothing has been changed.'
+            : error.problem === 'unavailable'
+              ? "This device's storage couldn't be read or written — it may be full or blocked. Free up space or check your browser settings, then retry."
+              : 'Your saved data is damaged or in a format this version does not recognise. Nothing has been changed yet.'}
+        </p>
+      </div>
+      <ul className="p-4 rounded-xl bg-red-50 space-y-1">
+        {error.details.map(detail => <li key={detail} className="text-red-500 text-[9px] font-black uppercase tracking-widest">{detail}</li>)}
+      </ul>
+      <div className="space-y-3">
+        {error.problem !== 'unavailable' && (
+          <button onClick={handleDownload} className="w-full py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Download Raw Data</button>
+        )}
+        {error.problem === 'damaged' && (
+          <button onClick={onKeepReadable} className="w-full py-4 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Keep Readable Data</button>
+        )}
+        <button onClick={onRetry} className="w-full py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">Retry</button>
+        <button onClick={() => confirmFresh ? onStartFresh() : setConfirmFresh(true)} className="w-full py-4 bg-red-50 text-red-500 rounded-xl font-black uppercase text-[9px] tracking-widest active:scale-95 transition-all">
+          {confirmFresh ? 'Tap Again to Erase Everything' : 'Start Fresh'}
+        </button>
+      </div>
+      {error.problem !== 'unavailable' && (
+        <p className="text-slate-300 text-[9px] font-bold uppercase tracking-widest text-center">Download your raw data first if you may want it later.</p>
+      )}
+    </div>
+  );
+};
+
+const CONFIDENCE_STYLES = { low: 'text-orange-500', medium: 'text-amber-500', high: 'text-emerald-500' };
+
+const SettingsTab: React.FC<{ profile: UserProfile, adaptiveTdee: AdaptiveTdee | null, adaptiveProgress: AdaptiveTdeeProgress, backupData: BackupData, onSaveProfile: any, onImport: any, onImportLogs: any }> = ({ profile, adaptiveTdee, adaptiveProgress, backupData, onSaveProfile, onImport, onImportLogs }) => {
   const [formData, setFormData] = useState<UserProfile>(profile);
   const [isManual, setIsManual] = useState(profile.manualLimit !== null);
+  const [isManualMacros, setIsManualMacros] = useState(!!profile.macroTargets);
+  const [hasMealBudgets, setHasMealBudgets] = useState(!!profile.mealBudgets);
+  const [hasGoalWeight, setHasGoalWeight] = useState(!!profile.goalWeight);
+  const [notificationError, setNotificationError] = useState<{ field: string, message: string } | null>(null);
+
+  // The profile can change underneath the form, e.g. when a backup is imported.
+  useEffect(() => {
+    setFormData(profile);
+    setIsManual(profile.manualLimit !== null);
+    setIsManualMacros(!!profile.macroTargets);
+    setHasMealBudgets(!!profile.mealBudgets);
+    setHasGoalWeight(!!profile.goalWeight);
+  }, [profile]);
+
+  const goalProfile = hasGoalWeight ? formData : { ...formData, goalWeight: null };
+  const requiredDeficit = calculateRequiredDeficit(goalProfile);
+  const calculatedGoal = calculateDailyTarget(goalProfile, adaptiveTdee?.tdee);
+  const formulaMaintenance = calculateMaintenanceCalories(formData);
+  const useAdaptive = formData.maintenanceSource === 'adaptive';
+  const impliedIntake = isManual ? Number(formData.manualLimit || 2000) : calculatedGoal;
+  const derivedMacros = deriveMacroTargets(isManual ? Number(formData.manualLimit || 2000) : calculatedGoal);
+  const macroTargets = formData.macroTargets || derivedMacros;
+  const mealBudgets = formData.mealBudgets || Object.fromEntries(MEAL_SLOTS.map(m => [m.key, m.defaultShare])) as Record<MealSlot, number>;
+  const mealBudgetTotal = MEAL_SLOTS.reduce((sum, m) => sum + mealBudgets[m.key], 0);
+
+  // Permission is asked for when switching on, while the tap still counts as a user action.
+  const enableNotifications = async (field: string): Promise<boolean> => {
+    setNotificationError(null);
+    if (!isNotificationSupported()) {
+      setNotificationError({ field, message: 'This browser does not support notifications' });
+      return false;
+    }
+    if (!(await requestNotificationPermission())) {
+      setNotificationError({ field, message: 'Notifications are blocked — allow them in your browser settings' });
+      return false;
+    }
+    return true;
+  };
+
+  const handleToggleFastingNotifications = async () => {
+    if (formData.fastingNotifications) {
+      setFormData({...formData, fastingNotifications: false});
+    } else if (await enableNotifications('fasting')) {
+      setFormData({...formData, fastingNotifications: true});
+    }
+  };
+
+  const fastingPlan = formData.fastingPlan || null;
+  const setPlanDay = (index: number, window: EatingWindow | null) =>
+    setFormData({...formData, fastingPlan: { ...fastingPlan!, days: fastingPlan!.days.map((day, i) => i === index ? window : day) }});
+
+  const loggingReminders = formData.loggingReminders || null;
+  const setLoggingReminders = (changes: Partial<LoggingReminders>) =>
+    setFormData({...formData, loggingReminders: { ...loggingReminders!, ...changes }});
+  const setMealReminder = (index: number, reminder: MealReminder) =>
+    setLoggingReminders({ meals: loggingReminders!.meals.map((r, i) => i === index ? reminder : r) });
 
-  const calculatedGoal = calculateDailyTarget(formData);
+  const fastBreakRule = formData.fastBreakRule || DEFAULT_FAST_BREAK_RULE;
+  const setFastBreakRule = (changes: Partial<FastBreakRule>) =>
+    setFormData({...formData, fastBreakRule: { ...fastBreakRule, ...changes }});
+
+  const handleToggleLoggingReminders = async () => {
+    if (loggingReminders) {
+      setFormData({...formData, loggingReminders: null});
+    } else if (await enableNotifications('logging')) {
+      setFormData({...formData, loggingReminders: DEFAULT_LOGGING_REMINDERS});
+    }
+  };
+
+  const handleTogglePlanReminders = async () => {
+    if (!fastingPlan) return;
+    if (fastingPlan.reminders) {
+      setFormData({...formData, fastingPlan: { ...fastingPlan, reminders: false }});
+    } else if (await enableNotifications('plan')) {
+      setFormData({...formData, fastingPlan: { ...fastingPlan, reminders: true }});
+    }
+  };
 
   const handleSave = () => {
     onSaveProfile({
       ...formData,
-      manualLimit: isManual ? Number(formData.manualLimit) : null
+      manualLimit: isManual ? Number(formData.manualLimit) : null,
+      macroTargets: isManualMacros ? macroTargets : null,
+      mealBudgets: hasMealBudgets ? mealBudgets : null,
+      goalWeight: hasGoalWeight ? formData.goalWeight || formData.weight : null
     });
   };
 
@@ -383,8 +1787,11 @@ const SettingsTab: React.FC<{ profile: UserProfile, onSaveProfile: any }> = ({ p
             <input type="number" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.height} onChange={e => setFormData({...formData, height: Number(e.target.value)})} />
           </div>
           <div className="space-y-1">
-            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Weight (kg)</label>
-            <input type="number" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.weight} onChange={e => setFormData({...formData, weight: Number(e.target.value)})} />
+            <div className="flex items-center justify-between px-1">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">Weight (kg)</label>
+              <button onClick={() => setFormData({...formData, syncWeightFromLog: !formData.syncWeightFromLog})} className={`text-[8px] font-black uppercase tracking-widest ${formData.syncWeightFromLog ? 'text-indigo-600' : 'text-slate-300'}`}>Auto</button>
+            </div>
+            <input type="number" disabled={!!formData.syncWeightFromLog} className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none disabled:text-slate-400" value={formData.weight} onChange={e => setFormData({...formData, weight: Number(e.target.value)})} />
           </div>
         </div>
 
@@ -401,15 +1808,62 @@ const SettingsTab: React.FC<{ profile: UserProfile, onSaveProfile: any }> = ({ p
 
         <div className="space-y-1">
           <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Deficit Goal (kcal)</label>
-          <input type="number" step="50" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.deficitGoal} onChange={e => setFormData({...formData, deficitGoal: Number(e.target.value)})} />
+          <input type="number" step="50" disabled={requiredDeficit !== null} className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none disabled:text-slate-400" value={requiredDeficit ?? formData.deficitGoal} onChange={e => setFormData({...formData, deficitGoal: Number(e.target.value)})} />
         </div>
 
         <div className="space-y-1">
-          <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">GMT Timezone</label>
+          <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Timezone</label>
           <select className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.timezone} onChange={e => setFormData({...formData, timezone: e.target.value})}>
-            {GMT_OFFSETS.map(o => <option key={o} value={o}>{o}</option>)}
+            <optgroup label="Regions (follow DST)">
+              {REGION_ZONES.map(z => <option key={z} value={z}>{z.replace(/_/g, ' ')}</option>)}
+            </optgroup>
+            <optgroup label="Fixed Offsets">
+              {FIXED_OFFSET_ZONES.map(z => <option key={z.value} value={z.value}>{z.label}</option>)}
+            </optgroup>
+            {![...REGION_ZONES, ...FIXED_OFFSET_ZONES.map(z => z.value)].includes(formData.timezone) && <option value={formData.timezone}>{formData.timezone}</option>}
+          </select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Day Starts At</label>
+          <select className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.dayStartHour || 0} onChange={e => setFormData({...formData, dayStartHour: Number(e.target.value)})}>
+            {DAY_START_HOURS.map(h => <option key={h} value={h}>{h === 0 ? 'Midnight' : `${h}:00 AM`}</option>)}
           </select>
+          <p className="text-[9px] font-bold uppercase tracking-widest text-slate-300 px-1">Food logged before this counts toward the previous day</p>
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Maintenance</span>
+          <button onClick={() => setFormData({...formData, maintenanceSource: useAdaptive ? 'formula' : 'adaptive'})} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${useAdaptive ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+            {useAdaptive ? 'Adaptive' : 'Formula'}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className={`p-5 rounded-[1.5rem] border ${!useAdaptive || !adaptiveTdee ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 bg-slate-50'}`}>
+            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Formula</p>
+            <p className="text-2xl font-black text-slate-900">{formulaMaintenance ?? '--'}<span className="text-[10px] text-slate-300 ml-1">kcal</span></p>
+            <p className="text-slate-400 text-[9px] font-bold uppercase">From activity level</p>
+          </div>
+          <div className={`p-5 rounded-[1.5rem] border ${useAdaptive && adaptiveTdee ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-100 bg-slate-50'}`}>
+            <p className="text-slate-400 text-[9px] font-black uppercase tracking-widest">Adaptive</p>
+            {adaptiveTdee ? (
+              <>
+                <p className="text-2xl font-black text-slate-900">{adaptiveTdee.tdee}<span className="text-[10px] text-slate-300 ml-1">kcal</span></p>
+                <p className={`text-[9px] font-black uppercase ${CONFIDENCE_STYLES[adaptiveTdee.confidence]}`}>{adaptiveTdee.confidence} confidence</p>
+              </>
+            ) : (
+              <>
+                <p className="text-2xl font-black text-slate-300">--</p>
+                <p className="text-slate-400 text-[9px] font-bold uppercase">
+                  {adaptiveProgress.loggedDays}/{MIN_LOGGED_DAYS} days logged · {adaptiveProgress.weighIns}/{MIN_WEIGH_INS} weigh-ins · {adaptiveProgress.spanDays}/{MIN_WEIGHT_SPAN_DAYS}d span
+                </p>
+              </>
+            )}
+          </div>
         </div>
+        {useAdaptive && !adaptiveTdee && <p className="mt-3 text-[9px] font-black uppercase tracking-widest text-slate-400">Using the formula until there is enough data</p>}
       </div>
 
       <div className="pt-4 border-t border-slate-100">
@@ -428,49 +1882,470 @@ const SettingsTab: React.FC<{ profile: UserProfile, onSaveProfile: any }> = ({ p
             <p className="text-5xl font-black italic tracking-tighter">{calculatedGoal}<span className="text-xs font-normal not-italic opacity-40 ml-2">kcal</span></p>
           </div>
         )}
+        {isBelowSafeFloor(impliedIntake, formData.gender) && (
+          <p className="mt-3 text-[9px] font-black uppercase tracking-widest text-red-500">Below the {SAFE_INTAKE_FLOOR[formData.gender]} kcal safe minimum — consider a later date or slower rate</p>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Goal Weight</span>
+          <button onClick={() => { if (!hasGoalWeight && !formData.goalDate && !formData.goalRate) setFormData({...formData, goalRate: 0.5}); setHasGoalWeight(!hasGoalWeight); }} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${hasGoalWeight ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+            {hasGoalWeight ? 'On' : 'Off'}
+          </button>
+        </div>
+        {hasGoalWeight && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Target (kg)</label>
+                <input type="number" step="0.1" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.goalWeight || ''} onChange={e => setFormData({...formData, goalWeight: Number(e.target.value)})} />
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between px-1">
+                  <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">{formData.goalDate ? 'By Date' : 'Kg / Week'}</label>
+                  <button onClick={() => setFormData(formData.goalDate ? {...formData, goalDate: null, goalRate: 0.5} : {...formData, goalDate: toDateInputValue(addDays(Date.now(), 84)), goalRate: null})} className="text-[8px] font-black uppercase tracking-widest text-indigo-600">{formData.goalDate ? 'Use Rate' : 'Use Date'}</button>
+                </div>
+                {formData.goalDate ? (
+                  <input type="date" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" min={toDateInputValue(addDays(Date.now(), 1))} value={formData.goalDate} onChange={e => setFormData({...formData, goalDate: e.target.value})} />
+                ) : (
+                  <input type="number" step="0.1" min="0.1" max="1.5" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.goalRate ?? 0.5} onChange={e => setFormData({...formData, goalRate: Number(e.target.value)})} />
+                )}
+              </div>
+            </div>
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+              {requiredDeficit === null ? (formData.goalDate ? 'Target date has passed — using deficit goal' : 'Enter a target weight') : requiredDeficit >= 0 ? `Requires a ${requiredDeficit} kcal daily deficit` : `Requires a ${-requiredDeficit} kcal daily surplus`}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Macro Targets</span>
+          <button onClick={() => setIsManualMacros(!isManualMacros)} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${isManualMacros ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+            {isManualMacros ? 'Manual' : 'From Goal'}
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-4">
+          {MACRO_FIELDS.map(f => (
+            <div key={f.key} className="space-y-1">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">{f.label} (g)</label>
+              <input type="number" disabled={!isManualMacros} className="w-full px-4 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none disabled:text-slate-400" value={isManualMacros ? macroTargets[f.key] : derivedMacros[f.key]} onChange={e => setFormData({...formData, macroTargets: { ...macroTargets, [f.key]: Number(e.target.value) }})} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Meal Budgets</span>
+          <button onClick={() => setHasMealBudgets(!hasMealBudgets)} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${hasMealBudgets ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+            {hasMealBudgets ? 'Split' : 'Off'}
+          </button>
+        </div>
+        {hasMealBudgets && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-3">
+              {MEAL_SLOTS.map(m => (
+                <div key={m.key} className="space-y-1">
+                  <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">{m.label} %</label>
+                  <input type="number" min="0" max="100" className="w-full px-3 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={mealBudgets[m.key]} onChange={e => setFormData({...formData, mealBudgets: { ...mealBudgets, [m.key]: Number(e.target.value) }})} />
+                </div>
+              ))}
+            </div>
+            <p className={`text-[9px] font-black uppercase tracking-widest ${mealBudgetTotal === 100 ? 'text-slate-400' : 'text-red-500'}`}>{mealBudgetTotal}% of daily limit allocated</p>
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Fasting Notifications</span>
+          <button onClick={handleToggleFastingNotifications} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${formData.fastingNotifications ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+            {formData.fastingNotifications ? 'On' : 'Off'}
+          </button>
+        </div>
+        <p className={`text-[9px] font-black uppercase tracking-widest ${notificationError?.field === 'fasting' ? 'text-red-500' : 'text-slate-400'}`}>
+          {notificationError?.field === 'fasting' ? notificationError.message : `Each new stage, your goal, and ${OVER_GOAL_HOURS}h past it`}
+        </p>
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Fasting Plan</span>
+          <button onClick={() => setFormData({...formData, fastingPlan: fastingPlan ? null : DEFAULT_FASTING_PLAN})} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${fastingPlan ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+            {fastingPlan ? 'On' : 'Off'}
+          </button>
+        </div>
+        {fastingPlan && (
+          <div className="space-y-3">
+            {WEEKDAYS.map((label, i) => {
+              const window = fastingPlan.days[i];
+              return (
+                <div key={label} className="flex items-center gap-3">
+                  <span className="w-10 text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+                  <button onClick={() => setPlanDay(i, window ? null : DEFAULT_EATING_WINDOW)} className={`w-14 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest transition-all ${window ? 'bg-slate-50 text-slate-400 border-slate-200' : 'bg-slate-900 text-white border-slate-900'}`}>
+                    {window ? 'Eat' : 'Fast'}
+                  </button>
+                  {window ? (
+                    <div className="flex-1 grid grid-cols-2 gap-2">
+                      <input type="time" className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={window.start} onChange={e => e.target.value && setPlanDay(i, { ...window, start: e.target.value })} />
+                      <input type="time" className="w-full px-3 py-2 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={window.end} onChange={e => e.target.value && setPlanDay(i, { ...window, end: e.target.value })} />
+                    </div>
+                  ) : (
+                    <span className="flex-1 text-[9px] font-bold uppercase tracking-widest text-slate-300">No eating window</span>
+                  )}
+                </div>
+              );
+            })}
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">Start & Stop Reminders</span>
+              <button onClick={handleTogglePlanReminders} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${fastingPlan.reminders ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+                {fastingPlan.reminders ? 'On' : 'Off'}
+              </button>
+            </div>
+            <p className={`text-[9px] font-black uppercase tracking-widest ${notificationError?.field === 'plan' ? 'text-red-500' : 'text-slate-300'}`}>
+              {notificationError?.field === 'plan' ? notificationError.message : 'Fasts run between eating windows — a fast day joins two nights into one long fast'}
+            </p>
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Logging Reminders</span>
+          <button onClick={handleToggleLoggingReminders} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${loggingReminders ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+            {loggingReminders ? 'On' : 'Off'}
+          </button>
+        </div>
+        {notificationError?.field === 'logging' && <p className="text-[9px] font-black uppercase tracking-widest text-red-500">{notificationError.message}</p>}
+        {loggingReminders && (
+          <div className="space-y-3">
+            {loggingReminders.meals.map((reminder, i) => (
+              <div key={i} className="flex items-center gap-3">
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">If nothing since</span>
+                <input type="time" className="flex-1 px-3 py-2 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={reminder.since} onChange={e => e.target.value && setMealReminder(i, { ...reminder, since: e.target.value })} />
+                <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">at</span>
+                <input type="time" className="flex-1 px-3 py-2 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={reminder.at} onChange={e => e.target.value && setMealReminder(i, { ...reminder, at: e.target.value })} />
+                <button onClick={() => setLoggingReminders({ meals: loggingReminders.meals.filter((_, j) => j !== i) })} className="text-slate-300 hover:text-indigo-600 transition-all p-1">✕</button>
+              </div>
+            ))}
+            <button onClick={() => setLoggingReminders({ meals: [...loggingReminders.meals, DEFAULT_LOGGING_REMINDERS.meals[0]] })} className="text-indigo-600 text-[9px] font-black uppercase tracking-widest">+ Reminder</button>
+            <div className="flex items-center gap-3 pt-2">
+              <button onClick={() => setLoggingReminders({ summaryTime: loggingReminders.summaryTime ? null : DEFAULT_LOGGING_REMINDERS.summaryTime })} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${loggingReminders.summaryTime ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+                Daily Summary
+              </button>
+              {loggingReminders.summaryTime && (
+                <input type="time" className="flex-1 px-3 py-2 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={loggingReminders.summaryTime} onChange={e => e.target.value && setLoggingReminders({ summaryTime: e.target.value })} />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-slate-100">
+        <div className="flex items-center justify-between mb-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Food During a Fast</span>
+          <div className="flex gap-2">
+            {(['ask', 'auto'] as const).map(mode => (
+              <button key={mode} onClick={() => setFastBreakRule({ mode })} className={`text-[9px] font-black uppercase tracking-widest px-4 py-1.5 rounded-full border transition-all ${fastBreakRule.mode === mode ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-50 text-slate-400 border-slate-200'}`}>
+                {mode === 'ask' ? 'Ask' : 'Auto End'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-[9px] font-black uppercase tracking-widest text-slate-400 px-1">Breaks the fast above (kcal)</label>
+          <input type="number" min="0" className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={fastBreakRule.threshold} onChange={e => setFastBreakRule({ threshold: Math.max(0, parseInt(e.target.value) || 0) })} />
+        </div>
+      </div>
+
+      <div className="pt-4 border-t border-slate-100 space-y-4">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">Default Fasting Protocol</span>
+        <div className="grid grid-cols-2 gap-4">
+          <select className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none" value={formData.fastingProtocol || '16:8'} onChange={e => setFormData({...formData, fastingProtocol: e.target.value as FastingProtocol})}>
+            {FASTING_PROTOCOLS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <input type="number" min="1" max="168" disabled={formData.fastingProtocol !== 'custom'} className="w-full px-5 py-4 rounded-xl bg-slate-50 border border-slate-200 text-slate-900 font-bold outline-none disabled:text-slate-400" value={getProtocolHours(formData.fastingProtocol || '16:8', formData.customFastingHours)} onChange={e => setFormData({...formData, customFastingHours: Number(e.target.value)})} />
+        </div>
       </div>
 
       <button onClick={handleSave} className="w-full bg-slate-900 text-white py-6 rounded-[2rem] font-black uppercase text-[10px] tracking-widest shadow-xl active:scale-95 transition-all">Save All Changes</button>
+
+      <CsvExportSection logs={backupData.logs} fastingLogs={backupData.fastingLogs} onImportLogs={onImportLogs} />
+
+      <BackupSection data={backupData} onImport={onImport} />
     </div>
   );
 };
 
 // --- MAIN APP ---
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'calories' | 'fasting' | 'settings'>('calories');
-  const [profile, setProfile] = useState<UserProfile>(() => {
-    const saved = localStorage.getItem('selflove_user_v10');
-    return saved ? JSON.parse(saved) : { 
-      name: 'User', dob: '1995-01-01', height: 175, weight: 70, gender: 'male', 
-      manualLimit: null, timezone: 'GMT+0', activityLevel: 'moderately_active', deficitGoal: 500 
+  const [activeTab, setActiveTab] = useState<'calories' | 'fasting' | 'weight' | 'settings'>('calories');
+  const [profile, setProfile] = useState<UserProfile>(() => ({ 
+    name: 'User', dob: '1995-01-01', height: 175, weight: 70, gender: 'male', 
+    manualLimit: null, timezone: migrateTimeZone(undefined), activityLevel: 'moderately_active', deficitGoal: 500, macroTargets: null, mealBudgets: null, fastingProtocol: '16:8', customFastingHours: 16 
+  }));
+
+  // The date helpers read a module-wide zone and day start, so they are only changed once a render
+  // commits. dayKey follows what is applied and re-renders before paint, so memos keyed on it and the
+  // views below never mix settings.
+  const [dayKey, setDayKey] = useState('');
+  useLayoutEffect(() => {
+    setTimeZone(profile.timezone);
+    setDayStartHour(profile.dayStartHour || 0);
+    setDayKey(`${profile.timezone}@${profile.dayStartHour || 0}`);
+  }, [profile.timezone, profile.dayStartHour]);
+
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [fastingLogs, setFastingLogs] = useState<FastingLog[]>([]);
+  const [fastingState, setFastingState] = useState<FastingState>({ isActive: false, startTime: null });
+  const [limitHistory, setLimitHistory] = useState<DailyLimitChange[]>([]);
+  const [foodLibrary, setFoodLibrary] = useState<FoodItem[]>([]);
+  const [savedMeals, setSavedMeals] = useState<SavedMeal[]>([]);
+  const [weights, setWeights] = useState<WeightEntry[]>([]);
+  const [unloggedDays, setUnloggedDays] = useState<string[]>([]);
+
+  const [repository, setRepository] = useState<Repository | null>(null);
+  const [loadError, setLoadError] = useState<LoadFailure | null>(null);
+  const [storageError, setStorageError] = useState(false);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  // What the repository currently holds, so only changed records are written.
+  const persisted = useRef<{ logs: LogEntry[], fastingLogs: FastingLog[] }>({ logs: [], fastingLogs: [] });
+
+  // Upgrades and validates whatever is stored before anything is shown or saved.
+  const loadData = (dropInvalid: boolean = false) => {
+    setLoadError(null);
+    openRepository().then(async repo => {
+      const { data, error } = await loadStoredData(repo, dropInvalid);
+      if (error) {
+        setLoadError(error);
+        return;
+      }
+      persisted.current = { logs: data.logs, fastingLogs: data.fastingLogs };
+      if (data.profile) setProfile(data.profile);
+      if (data.fastingState) setFastingState(data.fastingState);
+      setLogs(data.logs);
+      setFastingLogs(data.fastingLogs);
+      setLimitHistory(data.limitHistory);
+      setFoodLibrary(data.foodLibrary.length > 0 ? data.foodLibrary : buildFoodLibrary(data.logs));
+      setSavedMeals(data.savedMeals);
+      setWeights(data.weights);
+      setUnloggedDays(data.unloggedDays);
+      setRepository(repo);
+    }).catch(error => {
+      setLoadError({ problem: 'unavailable', details: [error instanceof Error ? error.message : String(error)], raw: {} });
+    });
+  };
+
+  useEffect(() => loadData(), []);
+  useEffect(() => registerServiceWorker(apply => setApplyUpdate(() => apply)), []);
+
+  const scheduler = useMemo(() => createScheduler(), []);
+
+  // Milestones are worked out from the fast's start, so after a reload the rest are scheduled
+  // again and one missed while the app was closed is still shown.
+  useEffect(() => {
+    scheduler.cancelAll('fast:');
+    const { isActive, startTime } = fastingState;
+    if (!repository || !profile.fastingNotifications || !isActive || !startTime) return;
+    const milestones = getFastingMilestones(startTime, fastingState.targetHours || DEFAULT_FASTING_HOURS, FASTING_STAGES);
+    const { missed, upcoming } = getPendingMilestones(milestones, fastingState.notifiedUntil ?? startTime, Date.now());
+    const notify = (milestone: FastingMilestone) => {
+      showNotification(milestone.title, milestone.body, milestone.id);
+      setFastingState(prev => prev.startTime === startTime ? { ...prev, notifiedUntil: milestone.at } : prev);
     };
-  });
+    if (missed) notify(missed);
+    upcoming.forEach(milestone => scheduler.schedule(`fast:${milestone.id}`, milestone.at, () => notify(milestone)));
+  }, [repository, profile.fastingNotifications, fastingState.isActive, fastingState.startTime, fastingState.targetHours]);
+
+  // Bumped after each plan reminder so the one after it gets scheduled.
+  const [planReminderCount, setPlanReminderCount] = useState(0);
+
+  useEffect(() => {
+    scheduler.cancelAll('plan:');
+    const plan = profile.fastingPlan;
+    if (!repository || !plan?.reminders) return;
+    const event = getNextPlanEvent(plan, Date.now());
+    if (!event) return;
+    scheduler.schedule(`plan:${event.at}`, event.at, () => {
+      const next = getNextPlanEvent(plan, event.at);
+      const nextLabel = next ? ` Next change ${formatDateTime(next.at)}.` : '';
+      showNotification(
+        event.type === 'opens' ? 'Eating window open' : 'Eating window closed',
+        (event.type === 'opens' ? 'Time to end your fast.' : 'Time to start your fast.') + nextLabel,
+        `plan:${event.at}`
+      );
+      setPlanReminderCount(count => count + 1);
+    });
+  }, [repository, profile.fastingPlan, planReminderCount, dayKey]);
+
+  const handleStartFresh = async () => {
+    try {
+      await clearStoredData(await openRepository());
+    } finally {
+      window.location.reload();
+    }
+  };
+
+  const persist = (write: Promise<void>) => write.catch(() => setStorageError(true));
 
-  const [logs, setLogs] = useState<LogEntry[]>(() => JSON.parse(localStorage.getItem('selflove_logs_v10') || '[]'));
-  const [fastingLogs, setFastingLogs] = useState<FastingLog[]>(() => JSON.parse(localStorage.getItem('selflove_fast_logs_v10') || '[]'));
-  const [fastingState, setFastingState] = useState<FastingState>(() => JSON.parse(localStorage.getItem('selflove_fast_state_v10') || 'null') || { isActive: false, startTime: null });
+  // The lists the schema still keeps in localStorage. With the in-memory repository localStorage
+  // is unusable too, which the banner already covers.
+  const persistList = (key: string, value: unknown) => {
+    if (!repository || !repository.persistent) return;
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      setStorageError(true);
+    }
+  };
+
+  const syncCollection = <T extends { id: string }>(collection: Collection<T>, previous: T[], next: T[]) => {
+    const { changed, removed } = diffById(previous, next);
+    if (changed.length > 0) persist(collection.put(changed));
+    if (removed.length > 0) persist(collection.delete(removed));
+  };
+
+  useEffect(() => { if (repository) persist(repository.set('profile', profile)); }, [profile, repository]);
+  useEffect(() => { if (repository) persist(repository.set('fastingState', fastingState)); }, [fastingState, repository]);
+  useEffect(() => {
+    if (!repository) return;
+    syncCollection(repository.logs, persisted.current.logs, logs);
+    persisted.current.logs = logs;
+  }, [logs, repository]);
+  useEffect(() => {
+    if (!repository) return;
+    syncCollection(repository.fastingLogs, persisted.current.fastingLogs, fastingLogs);
+    persisted.current.fastingLogs = fastingLogs;
+  }, [fastingLogs, repository]);
+  useEffect(() => persistList(LOCAL_STORAGE_KEYS.limitHistory, limitHistory), [limitHistory, repository]);
+  useEffect(() => persistList(LOCAL_STORAGE_KEYS.foodLibrary, foodLibrary), [foodLibrary, repository]);
+  useEffect(() => persistList(LOCAL_STORAGE_KEYS.savedMeals, savedMeals), [savedMeals, repository]);
+  useEffect(() => persistList(LOCAL_STORAGE_KEYS.weights, weights), [weights, repository]);
+  useEffect(() => persistList(LOCAL_STORAGE_KEYS.unloggedDays, unloggedDays), [unloggedDays, repository]);
+
+  // With "Auto" on in settings, the latest weigh-in drives the BMR weight.
+  useEffect(() => {
+    const latest = getLatestWeight(weights);
+    if (latest && profile.syncWeightFromLog && latest.weight !== profile.weight) setProfile({ ...profile, weight: latest.weight });
+  }, [weights, profile.syncWeightFromLog]);
+
+  // Averages only count days that were actually logged.
+  const countedLogs = useMemo(() => excludeUnloggedDays(logs, unloggedDays), [logs, unloggedDays, dayKey]);
+  const adaptiveTdee = useMemo(() => estimateAdaptiveTdee(countedLogs, weights), [countedLogs, weights, dayKey]);
+  const dailyLimit = profile.manualLimit || calculateDailyTarget(profile, adaptiveTdee?.tdee);
+  const intake = useMemo(() => getAverageDailyIntake(countedLogs), [countedLogs, dayKey]);
+
+  useEffect(() => {
+    if (!repository) return; // the placeholder profile's limit shouldn't enter the history
+    setLimitHistory(prev => prev.length > 0 && prev[prev.length - 1].limit === dailyLimit ? prev : [...prev, { effectiveFrom: Date.now(), limit: dailyLimit }]);
+  }, [dailyLimit, repository]);
 
-  useEffect(() => localStorage.setItem('selflove_user_v10', JSON.stringify(profile)), [profile]);
-  useEffect(() => localStorage.setItem('selflove_logs_v10', JSON.stringify(logs)), [logs]);
-  useEffect(() => localStorage.setItem('selflove_fast_logs_v10', JSON.stringify(fastingLogs)), [fastingLogs]);
-  useEffect(() => localStorage.setItem('selflove_fast_state_v10', JSON.stringify(fastingState)), [fastingState]);
+  // Bumped after each logging reminder so the following day's get scheduled.
+  const [loggingReminderCount, setLoggingReminderCount] = useState(0);
 
-  const dailyLimit = profile.manualLimit || calculateDailyTarget(profile);
+  // Rescheduled whenever logs change, so each reminder checks the latest entries when it fires.
+  useEffect(() => {
+    scheduler.cancelAll('logging:');
+    const settings = profile.loggingReminders;
+    if (!repository || !settings) return;
+    getUpcomingReminders(settings, Date.now()).forEach(reminder => scheduler.schedule(`logging:${reminder.id}`, reminder.at, () => {
+      if (reminder.kind === 'meal' && !hasFoodBetween(logs, reminder.since, reminder.at)) {
+        showNotification('Nothing logged yet', `No food logged since ${formatInZone(reminder.since, { hour: '2-digit', minute: '2-digit' })}. Add what you've eaten to keep today's total accurate.`, reminder.id);
+      } else if (reminder.kind === 'summary') {
+        const { consumed, burned, entries } = summarizeDay(logs, reminder.at);
+        const remaining = dailyLimit - (consumed - burned);
+        showNotification("Today's summary", entries === 0
+          ? 'Nothing logged today.'
+          : `${consumed} kcal eaten, ${burned} burned — ${remaining >= 0 ? `${remaining} under` : `${-remaining} over`} your ${dailyLimit} kcal limit.`, reminder.id);
+      }
+      setLoggingReminderCount(count => count + 1);
+    }));
+  }, [repository, profile.loggingReminders, logs, dailyLimit, loggingReminderCount, dayKey]);
+
+  const handleSaveFast = (log: FastingLog) => {
+    setFastingLogs([log, ...fastingLogs.filter(l => l.id !== log.id)].sort((a, b) => b.startTime - a.startTime));
+  };
 
-  const handleEndFast = () => {
+  const handleEndFast = (endTime: number = Date.now()) => {
     if (fastingState.isActive && fastingState.startTime) {
-      const now = Date.now();
-      const newLog: FastingLog = { id: Math.random().toString(), startTime: fastingState.startTime, endTime: now, duration: now - fastingState.startTime };
-      setFastingLogs([newLog, ...fastingLogs]);
+      handleSaveFast(createFastingLog(Math.random().toString(), fastingState.startTime, endTime, fastingState.protocol, fastingState.targetHours || DEFAULT_FASTING_HOURS));
     }
     setFastingState({ isActive: false, startTime: null });
   };
 
+  const fastBreakRule = profile.fastBreakRule || DEFAULT_FAST_BREAK_RULE;
+  const [pendingFastBreak, setPendingFastBreak] = useState<Omit<LogEntry, 'id'>[] | null>(null);
+  const pendingBreakEntry = pendingFastBreak && findFastBreakingEntry<Omit<LogEntry, 'id'>>(pendingFastBreak, fastingState, fastBreakRule);
+
+  // Each completed fast gets linked to the meal that followed it.
+  useEffect(() => {
+    if (repository) setFastingLogs(prev => annotateBreakFasts(prev, logs, fastBreakRule.threshold));
+  }, [repository, logs, fastingLogs, fastBreakRule.threshold]);
+
+  // Food logged from the calories tab during a fast ends it, or asks first, per the profile's rule.
+  const handleLogFood = (entries: Omit<LogEntry, 'id'>[]) => {
+    const timed = entries.map(entry => ({ ...entry, timestamp: entry.timestamp || Date.now() }));
+    const breaking = findFastBreakingEntry(timed, fastingState, fastBreakRule);
+    if (breaking && fastBreakRule.mode === 'ask') {
+      setPendingFastBreak(timed);
+      return;
+    }
+    handleAddLogs(timed);
+    if (breaking) handleEndFast(breaking.timestamp);
+  };
+
+  const handleResolveFastBreak = (endFast: boolean) => {
+    if (!pendingFastBreak) return;
+    handleAddLogs(pendingFastBreak);
+    if (endFast && pendingBreakEntry) handleEndFast(pendingBreakEntry.timestamp);
+    setPendingFastBreak(null);
+  };
+
+  const handleAddLogs = (entries: Omit<LogEntry, 'id'>[]) => {
+    const newLogs: LogEntry[] = entries.map(entry => {
+      const timestamp = entry.timestamp || Date.now();
+      return { ...entry, id: Math.random().toString(), timestamp, meal: entry.type === 'food' ? entry.meal || getMealSlotForTime(timestamp) : undefined };
+    });
+    setLogs([...newLogs, ...logs]);
+    setFoodLibrary(newLogs.filter(log => log.type === 'food' && !log.breakdown).reduce(recordFoodUse, foodLibrary));
+  };
+
+  const handleImport = (data: BackupData) => {
+    setProfile({ ...data.profile, timezone: migrateTimeZone(data.profile.timezone) });
+    setLogs(data.logs);
+    setFastingLogs(data.fastingLogs);
+    setFastingState(data.fastingState);
+    setLimitHistory(data.limitHistory);
+    setFoodLibrary(data.foodLibrary);
+    setSavedMeals(data.savedMeals);
+    setWeights(data.weights);
+    setUnloggedDays(data.unloggedDays);
+  };
+
+  const handleToggleUnlogged = (date: string) => {
+    setUnloggedDays(unloggedDays.includes(date) ? unloggedDays.filter(d => d !== date) : [...unloggedDays, date].sort());
+  };
+
+  const handleSaveMeal = (meal: SavedMeal) => {
+    setSavedMeals(savedMeals.some(m => m.id === meal.id) ? savedMeals.map(m => m.id === meal.id ? meal : m) : [...savedMeals, meal]);
+  };
+
   const handleSaveProfile = (newProfile: UserProfile) => {
     setProfile(newProfile);
     setActiveTab('calories'); // Redirect to calories after saving
   };
 
+  if (loadError) {
+    return <StorageRecovery error={loadError} onKeepReadable={() => loadData(true)} onStartFresh={handleStartFresh} onRetry={() => loadData()} />;
+  }
+
+  if (!repository) {
+    return <div className="min-h-screen flex items-center justify-center text-slate-300 font-black uppercase text-[9px] tracking-widest">Loading…</div>;
+  }
+
   return (
     <div className="min-h-screen bg-white flex flex-col max-w-md mx-auto shadow-2xl border-x border-slate-50 overflow-hidden text-slate-900">
       <header className="px-10 pt-10 pb-6 flex justify-between items-end bg-white">
@@ -483,7 +2358,25 @@ const App: React.FC = () => {
         </button>
       </header>
 
-      <nav className="px-10 grid grid-cols-2 gap-4 mt-6">
+      {applyUpdate && (
+        <button onClick={applyUpdate} className="mx-10 p-4 rounded-xl bg-indigo-50 text-indigo-600 text-[9px] font-black uppercase tracking-widest text-left">
+          Update available — tap to reload
+        </button>
+      )}
+
+      {!repository.persistent && (
+        <p className="mx-10 p-4 rounded-xl bg-amber-50 text-amber-600 text-[9px] font-black uppercase tracking-widest">
+          This browser isn't letting SelfLove save — changes will be lost when the app closes. Export a backup from settings.
+        </p>
+      )}
+
+      {storageError && (
+        <button onClick={() => setStorageError(false)} className="mx-10 p-4 rounded-xl bg-red-50 text-red-500 text-[9px] font-black uppercase tracking-widest text-left">
+          Some changes couldn't be saved — device storage may be full. Export a backup from settings. ✕
+        </button>
+      )}
+
+      <nav className="px-10 grid grid-cols-3 gap-4 mt-6">
         <button onClick={() => setActiveTab('calories')} className={`py-6 rounded-[2rem] flex items-center justify-center transition-all ${activeTab === 'calories' ? 'bg-indigo-600 text-white shadow-xl' : 'bg-slate-50 text-slate-300'}`}>
           <span className="text-[10px] font-black uppercase tracking-[0.2em]">Calories</span>
         </button>
@@ -496,13 +2389,31 @@ const App: React.FC = () => {
             </div>
           )}
         </button>
+        <button onClick={() => setActiveTab('weight')} className={`py-6 rounded-[2rem] flex items-center justify-center transition-all ${activeTab === 'weight' ? 'bg-indigo-600 text-white shadow-xl' : 'bg-slate-50 text-slate-300'}`}>
+          <span className="text-[10px] font-black uppercase tracking-[0.2em]">Weight</span>
+        </button>
       </nav>
 
-      <main className="flex-1 overflow-y-auto mt-4 scroll-smooth custom-scrollbar">
-        {activeTab === 'calories' && <CaloriesTab logs={logs} dailyLimit={dailyLimit} onAddLog={(e: any) => setLogs([{...e, id: Math.random().toString(), timestamp: Date.now()}, ...logs])} onDeleteLog={(id: string) => setLogs(logs.filter(l => l.id !== id))} />}
-        {activeTab === 'fasting' && <FastingTab fastingState={fastingState} fastingLogs={fastingLogs} onStartFast={(t: number) => setFastingState({isActive: true, startTime: t})} onEndFast={handleEndFast} />}
-        {activeTab === 'settings' && <SettingsTab profile={profile} onSaveProfile={handleSaveProfile} />}
+      <main key={dayKey} className="flex-1 overflow-y-auto mt-4 scroll-smooth custom-scrollbar">
+        {activeTab === 'calories' && <CaloriesTab logs={logs} unloggedDays={unloggedDays} fastBreakThreshold={fastBreakRule.threshold} dailyLimit={dailyLimit} limitHistory={limitHistory} maintenance={getMaintenance(profile, adaptiveTdee?.tdee)} macroTargets={profile.macroTargets || null} mealBudgets={profile.mealBudgets || null} foodLibrary={foodLibrary} savedMeals={savedMeals} onAddLog={(entry: Omit<LogEntry, 'id'>) => handleLogFood([entry])} onAddLogs={handleLogFood} onUpdateLog={(updated: LogEntry) => setLogs(logs.map(l => l.id === updated.id ? updated : l))} onDeleteLog={(id: string) => setLogs(logs.filter(l => l.id !== id))} onUpdateFood={(updated: FoodItem) => setFoodLibrary(foodLibrary.map(f => f.id === updated.id ? updated : f))} onDeleteFood={(id: string) => setFoodLibrary(foodLibrary.filter(f => f.id !== id))} onSaveMeal={handleSaveMeal} onDeleteMeal={(id: string) => setSavedMeals(savedMeals.filter(m => m.id !== id))} onToggleUnlogged={handleToggleUnlogged} />}
+        {activeTab === 'fasting' && <FastingTab fastingState={fastingState} fastingLogs={fastingLogs} fastingPlan={profile.fastingPlan || null} defaultProtocol={profile.fastingProtocol || '16:8'} defaultCustomHours={profile.customFastingHours || DEFAULT_FASTING_HOURS} onStartFast={(t: number, protocol: FastingProtocol, targetHours: number) => setFastingState({isActive: true, startTime: t, protocol, targetHours})} onEndFast={handleEndFast} onSaveFast={handleSaveFast} onDeleteFast={(id: string) => setFastingLogs(fastingLogs.filter(l => l.id !== id))} />}
+        {activeTab === 'weight' && <WeightTab weights={weights} goalWeight={profile.goalWeight || null} profileWeight={profile.weight} maintenance={getMaintenance(profile, adaptiveTdee?.tdee)} intake={intake} onSaveWeight={(entry: WeightEntry) => setWeights([...weights.filter(w => w.id !== entry.id), entry])} onDeleteWeight={(id: string) => setWeights(weights.filter(w => w.id !== id))} />}
+        {activeTab === 'settings' && <SettingsTab profile={profile} adaptiveTdee={adaptiveTdee} adaptiveProgress={getAdaptiveTdeeProgress(countedLogs, weights)} backupData={{ profile, logs, fastingLogs, fastingState, limitHistory, foodLibrary, savedMeals, weights, unloggedDays }} onSaveProfile={handleSaveProfile} onImport={handleImport} onImportLogs={handleAddLogs} />}
       </main>
+
+      <Modal isOpen={!!pendingFastBreak} onClose={() => setPendingFastBreak(null)} title="Break Your Fast?">
+        {pendingBreakEntry && fastingState.startTime && (
+          <div className="space-y-6">
+            <p className="text-slate-500 text-sm font-bold">
+              {pendingBreakEntry.name} ({pendingBreakEntry.calories} kcal) is over your {fastBreakRule.threshold} kcal limit for a fast. You've been fasting {formatCountdown(pendingBreakEntry.timestamp - fastingState.startTime)}.
+            </p>
+            <div className="flex gap-4">
+              <button onClick={() => handleResolveFastBreak(true)} className="flex-1 py-4 bg-slate-900 text-white rounded-xl font-black uppercase text-[9px] tracking-widest">Log & End Fast</button>
+              <button onClick={() => handleResolveFastBreak(false)} className="flex-1 py-4 bg-slate-50 border border-slate-200 text-slate-900 rounded-xl font-black uppercase text-[9px] tracking-widest">Keep Fasting</button>
+            </div>
+          </div>
+        )}
+      </Modal>
     </div>
   );
 };
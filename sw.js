@@ -1,9 +1,73 @@
+// The build prepends `self.__SW_CONFIG__` (see serviceWorkerPlugin in vite.config.ts) with the
+// build version, the files to precache and the origin the app is hosted on.
+const { version, precache, appOrigin } = self.__SW_CONFIG__ || { version: 'dev', precache: [], appOrigin: '' };
 
-// Service worker disabled to prevent origin mismatch errors in specific hosting environments.
-self.addEventListener('install', () => {
-  self.skipWaiting();
+const CACHE_PREFIX = 'selflove-';
+const PRECACHE = `${CACHE_PREFIX}precache-${version}`;
+const RUNTIME = `${CACHE_PREFIX}runtime-${version}`;
+
+// Some hosting environments serve the worker from a different origin than the page, where
+// caching would misbehave. With `APP_ORIGIN` set, the worker stays passive anywhere else.
+const enabled = !appOrigin || self.location.origin === appOrigin;
+
+self.addEventListener('install', (event) => {
+  if (!enabled) return;
+  event.waitUntil(caches.open(PRECACHE).then((cache) => cache.addAll(precache)));
+});
+
+// A new build waits until the page asks it to take over, so a reload never mixes versions.
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
 });
 
 self.addEventListener('activate', (event) => {
-  event.waitUntil(self.clients.claim());
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys
+        .filter((key) => key.startsWith(CACHE_PREFIX) && key !== PRECACHE && key !== RUNTIME)
+        .map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Tapping a notification brings the app back up, opening it if it was closed.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(self.clients.matchAll({ type: 'window' }).then((windows) =>
+    windows.length > 0 ? windows[0].focus() : self.clients.openWindow('./')));
+});
+
+// Opaque responses come from cross-origin scripts and fonts loaded without CORS.
+const isCacheable = (response) => response.ok || response.type === 'opaque';
+
+// Pages try the network first so a deploy shows up, falling back to the cached shell offline.
+const networkFirst = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) (await caches.open(RUNTIME)).put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request) || await caches.match('index.html');
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Everything else (hashed build assets, the Tailwind CDN, fonts) is served from the cache when
+// present and refreshed in the background.
+const staleWhileRevalidate = async (request) => {
+  const cached = await caches.match(request);
+  const update = fetch(request).then(async (response) => {
+    if (isCacheable(response)) (await caches.open(RUNTIME)).put(request, response.clone());
+    return response;
+  });
+  if (!cached) return update;
+  update.catch(() => {});
+  return cached;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (!enabled || request.method !== 'GET' || !request.url.startsWith('http')) return;
+  event.respondWith(request.mode === 'navigate' ? networkFirst(request) : staleWhileRevalidate(request));
 });
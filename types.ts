@@ -1,5 +1,15 @@
 
 export type Gender = 'male' | 'female';
+export type ActivityLevel = 'sedentary' | 'lightly_active' | 'moderately_active' | 'very_active' | 'extra_active';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+export type FastingProtocol = '16:8' | '18:6' | '20:4' | 'omad' | '36h' | '5:2' | 'custom';
+
+export interface Macros {
+  protein: number;
+  carbs: number;
+  fat: number;
+}
 
 export interface UserProfile {
   name: string;
@@ -7,8 +17,52 @@ export interface UserProfile {
   height: number; // in cm
   weight: number; // in kg
   gender: Gender;
-  address: string;
+  timezone: string; // IANA zone name, e.g. "Europe/Berlin" or "Etc/GMT-5"
+  dayStartHour?: number; // hour (0-11) at which a logged day begins, defaults to midnight
   manualLimit: number | null;
+  activityLevel: ActivityLevel;
+  deficitGoal: number;
+  goalWeight?: number | null; // in kg; when set, drives the deficit instead of `deficitGoal`
+  goalDate?: string | null; // YYYY-MM-DD, mutually exclusive with `goalRate`
+  goalRate?: number | null; // kg per week
+  maintenanceSource?: 'formula' | 'adaptive'; // basis for the smart goal, defaults to formula
+  macroTargets?: Macros | null; // grams; null derives them from the daily limit
+  mealBudgets?: Record<MealSlot, number> | null; // percent of the daily limit per meal
+  fastingProtocol?: FastingProtocol;
+  customFastingHours?: number;
+  syncWeightFromLog?: boolean; // keep `weight` in step with the latest weigh-in
+  fastingNotifications?: boolean; // stage, goal and over-goal alerts during a fast
+  fastingPlan?: FastingPlan | null;
+  loggingReminders?: LoggingReminders | null;
+  fastBreakRule?: FastBreakRule;
+}
+
+// Food above `threshold` kcal logged during a fast either ends it or asks first.
+export interface FastBreakRule {
+  mode: 'auto' | 'ask';
+  threshold: number;
+}
+
+// "HH:MM" wall-clock times; an end at or before the start falls on the next day.
+export interface EatingWindow {
+  start: string;
+  end: string;
+}
+
+// "HH:MM" wall-clock times: at `at`, remind if no food has been logged since `since`.
+export interface MealReminder {
+  since: string;
+  at: string;
+}
+
+export interface LoggingReminders {
+  meals: MealReminder[];
+  summaryTime: string | null; // end-of-day summary, "HH:MM"
+}
+
+export interface FastingPlan {
+  days: (EatingWindow | null)[]; // Monday first; null fasts through the whole day
+  reminders: boolean; // notify when each eating window opens and closes
 }
 
 export type ActivityType = 'Walking' | 'Running' | 'Biking' | 'HIIT' | 'Daily Chores' | 'Others';
@@ -20,6 +74,31 @@ export interface LogEntry {
   calories: number;
   timestamp: number;
   activityType?: ActivityType;
+  meal?: MealSlot;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  groupId?: string; // shared by entries logged together from a saved meal
+  groupName?: string;
+  breakdown?: MealComponent[]; // ingredients behind a single recipe entry
+}
+
+export interface MealComponent {
+  name: string;
+  calories: number; // per unit of quantity
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  quantity: number;
+}
+
+// Meals log as one entry per component; recipes log as a single per-serving entry.
+export interface SavedMeal {
+  id: string;
+  kind: 'meal' | 'recipe';
+  name: string;
+  items: MealComponent[];
+  servings: number;
 }
 
 export interface FastingLog {
@@ -27,11 +106,49 @@ export interface FastingLog {
   startTime: number;
   endTime: number;
   duration: number; // in milliseconds
+  protocol?: FastingProtocol;
+  targetHours?: number;
+  goalMet?: boolean;
+  breakFastMeal?: BreakFastMeal;
+}
+
+// The meal that ended a fast, copied so it still shows if the entry is later deleted.
+export interface BreakFastMeal {
+  logId: string;
+  name: string; // the saved meal's name when logged from one
+  calories: number;
+  timestamp: number;
 }
 
 export interface FastingState {
   isActive: boolean;
   startTime: number | null;
+  protocol?: FastingProtocol;
+  targetHours?: number;
+  notifiedUntil?: number; // time of the last milestone notified for this fast
+}
+
+export interface FoodItem {
+  id: string;
+  name: string;
+  calories: number;
+  protein?: number;
+  carbs?: number;
+  fat?: number;
+  isFavorite: boolean;
+  useCount: number;
+  lastUsed: number;
+}
+
+export interface WeightEntry {
+  id: string;
+  timestamp: number;
+  weight: number; // in kg
+}
+
+export interface DailyLimitChange {
+  effectiveFrom: number;
+  limit: number;
 }
 
 export enum FastingStage {
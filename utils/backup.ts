@@ -0,0 +1,156 @@
+import { UserProfile, FastingState } from '../types';
+import { toDateInputValue } from './dates';
+import { CollectionRecords, RecordCollection, isObject, isProfile, isFastingState, filterRecords } from './validation';
+
+export const BACKUP_APP = 'selflove';
+export const BACKUP_VERSION = 1;
+
+type Collection = RecordCollection;
+
+export type Collections = { [K in Collection]: CollectionRecords[K][] };
+
+export type BackupData = Collections & {
+  profile: UserProfile;
+  fastingState: FastingState;
+};
+
+export interface BackupFile {
+  app: typeof BACKUP_APP;
+  version: number;
+  exportedAt: number;
+  data: BackupData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportCount {
+  added: number;
+  skipped: number; // id already present (merge only)
+  rejected: number; // failed validation
+}
+
+export type ImportReport = Record<Collection, ImportCount> & { profile: 'replaced' | 'kept' };
+
+// A backup whose records have been validated; invalid records are dropped and counted.
+export interface ParsedBackup {
+  exportedAt: number;
+  profile: UserProfile | null;
+  fastingState: FastingState | null;
+  collections: Collections;
+  rejected: Record<Collection, number>;
+}
+
+export type ParseResult = { backup: ParsedBackup; error: null } | { backup: null; error: string };
+
+export const COLLECTION_LABELS: Record<Collection, string> = {
+  logs: 'Food & activity',
+  fastingLogs: 'Fasts',
+  weights: 'Weigh-ins',
+  foodLibrary: 'Food library',
+  savedMeals: 'Saved meals',
+  limitHistory: 'Limit history',
+  unloggedDays: 'Unlogged days'
+};
+
+// Builds every collection from its name. Listing the keys keeps each typed to its own records,
+// which assigning through a generic key can't.
+export const mapCollections = (build: <K extends Collection>(c: K) => CollectionRecords[K][]): Collections => ({
+  logs: build('logs'),
+  fastingLogs: build('fastingLogs'),
+  weights: build('weights'),
+  foodLibrary: build('foodLibrary'),
+  savedMeals: build('savedMeals'),
+  limitHistory: build('limitHistory'),
+  unloggedDays: build('unloggedDays')
+});
+
+// What identifies a record when merging, so one already on the device isn't added twice.
+const RECORD_KEYS: { [K in Collection]: (item: CollectionRecords[K]) => string } = {
+  logs: log => log.id,
+  fastingLogs: log => log.id,
+  weights: entry => entry.id,
+  foodLibrary: food => food.id,
+  savedMeals: meal => meal.id,
+  limitHistory: change => String(change.effectiveFrom),
+  unloggedDays: day => day
+};
+
+export const createBackup = (data: BackupData, now: number = Date.now()): BackupFile => ({
+  app: BACKUP_APP,
+  version: BACKUP_VERSION,
+  exportedAt: now,
+  data
+});
+
+export const getBackupFileName = (now: number = Date.now()): string =>
+  `selflove-backup-${toDateInputValue(now)}.json`;
+
+export const parseBackup = (text: string): ParseResult => {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    return { backup: null, error: 'This file is not valid JSON.' };
+  }
+  if (!isObject(file) || file.app !== BACKUP_APP || !isObject(file.data)) return { backup: null, error: 'This is not a SelfLove backup.' };
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) return { backup: null, error: 'This backup was made by a newer version of the app.' };
+
+  const data = file.data;
+  const rejected = {} as ParsedBackup['rejected'];
+  const collections = mapCollections(c => {
+    const items = data[c];
+    const valid = filterRecords(c, items);
+    rejected[c] = (Array.isArray(items) ? items.length : 0) - valid.length;
+    return valid;
+  });
+
+  return {
+    backup: {
+      exportedAt: typeof file.exportedAt === 'number' ? file.exportedAt : 0,
+      profile: isProfile(data.profile) ? data.profile : null,
+      fastingState: isFastingState(data.fastingState) ? data.fastingState : null,
+      collections,
+      rejected
+    },
+    error: null
+  };
+};
+
+// Merge keeps everything already on the device (profile and fasting state included) and only adds
+// records with unseen ids; replace swaps in the backup wholesale, except for invalid profile/state.
+export const applyBackup = (current: BackupData, backup: ParsedBackup, mode: ImportMode): { data: BackupData; report: ImportReport } => {
+  const report = { profile: 'kept' } as ImportReport;
+  const onDevice: Collections = current;
+
+  const collections = mapCollections(<K extends Collection>(c: K) => {
+    const incoming = backup.collections[c];
+    const kept: CollectionRecords[K][] = onDevice[c];
+    if (mode === 'replace') {
+      report[c] = { added: incoming.length, skipped: 0, rejected: backup.rejected[c] };
+      return incoming;
+    }
+    const getKey = RECORD_KEYS[c];
+    const existing = new Set(kept.map(item => getKey(item)));
+    const added = incoming.filter(item => {
+      const key = getKey(item);
+      if (existing.has(key)) return false;
+      existing.add(key);
+      return true;
+    });
+    report[c] = { added: added.length, skipped: incoming.length - added.length, rejected: backup.rejected[c] };
+    return [...kept, ...added];
+  });
+  const data: BackupData = { ...current, ...collections };
+
+  data.logs = [...data.logs].sort((a, b) => b.timestamp - a.timestamp);
+  data.fastingLogs = [...data.fastingLogs].sort((a, b) => b.startTime - a.startTime);
+  data.limitHistory = [...data.limitHistory].sort((a, b) => a.effectiveFrom - b.effectiveFrom);
+
+  if (mode === 'replace' && backup.profile) {
+    data.profile = backup.profile;
+    report.profile = 'replaced';
+  }
+  if (mode === 'replace' && backup.fastingState) data.fastingState = backup.fastingState;
+
+  return { data, report };
+};
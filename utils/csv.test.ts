@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LogEntry } from '../types';
+import { setTimeZone, setDayStartHour } from './dates';
+import { escapeCsvField, toCsv, buildLogsCsv, parseCsv } from './csv';
+
+const utc = (value: string) => Date.parse(`${value}Z`);
+
+beforeEach(() => {
+  setTimeZone('UTC');
+  setDayStartHour(0);
+});
+
+describe('escapeCsvField', () => {
+  it('leaves plain fields alone', () => {
+    expect(escapeCsvField('Oatmeal')).toBe('Oatmeal');
+    expect(escapeCsvField(420)).toBe('420');
+    expect(escapeCsvField(null)).toBe('');
+    expect(escapeCsvField(undefined)).toBe('');
+  });
+
+  it('quotes commas, quotes and line breaks', () => {
+    expect(escapeCsvField('Rice, beans')).toBe('"Rice, beans"');
+    expect(escapeCsvField('The "big" one')).toBe('"The ""big"" one"');
+    expect(escapeCsvField('Line\nbreak')).toBe('"Line\nbreak"');
+    expect(escapeCsvField('Line\r\nbreak')).toBe('"Line\r\nbreak"');
+  });
+
+  it('quotes leading and trailing whitespace so it survives', () => {
+    expect(escapeCsvField(' Toast')).toBe('" Toast"');
+    expect(escapeCsvField('Toast\t')).toBe('"Toast\t"');
+  });
+});
+
+describe('toCsv', () => {
+  const rows = [
+    ['Name', 'Note'],
+    ['Rice, beans', 'The "big" one'],
+    [' Toast ', 'Two\r\nlines'],
+    ['Tea', '']
+  ];
+
+  it('starts with a byte order mark and ends rows with CRLF', () => {
+    expect(toCsv([['a', 'b'], ['c', 'd']])).toBe('\ufeffa,b\r\nc,d\r\n');
+  });
+
+  it('round-trips through the import parser', () => {
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('buildLogsCsv', () => {
+  it('lists entries in the range by time', () => {
+    const logs: LogEntry[] = [
+      { id: 'b', type: 'activity', name: 'Walk', calories: 150, timestamp: utc('2026-10-12T18:30'), activityType: 'Walking' },
+      { id: 'a', type: 'food', name: 'Rice, beans', calories: 600, timestamp: utc('2026-10-12T12:05') },
+      { id: 'c', type: 'food', name: 'Late', calories: 100, timestamp: utc('2026-10-13T00:00') }
+    ];
+    expect(parseCsv(buildLogsCsv(logs, utc('2026-10-12T00:00'), utc('2026-10-13T00:00')))).toEqual([
+      ['Date', 'Time', 'Type', 'Name', 'Calories', 'Activity Type'],
+      ['2026-10-12', '12:05', 'food', 'Rice, beans', '600', ''],
+      ['2026-10-12', '18:30', 'activity', 'Walk', '150', 'Walking']
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { LogEntry, FastingLog } from '../types';
+import { toDateInputValue, toDateTimeInputValue } from './dates';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type CsvValue = string | number | null | undefined;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks, doubling inner quotes.
+export const escapeCsvField = (value: CsvValue): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Prefixed with a byte order mark so Excel reads food names as UTF-8.
+export const toCsv = (rows: CsvValue[][]): string =>
+  '\ufeff' + rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+
+const toDateTimeValue = (ts: number): string => toDateTimeInputValue(ts).replace('T', ' ');
+
+// `from` is inclusive and `to` exclusive. Dates follow the profile's zone and day start.
+export const buildLogsCsv = (logs: LogEntry[], from: number, to: number): string => toCsv([
+  ['Date', 'Time', 'Type', 'Name', 'Calories', 'Activity Type'],
+  ...logs
+    .filter(log => log.timestamp >= from && log.timestamp < to)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(log => [toDateInputValue(log.timestamp), toDateTimeInputValue(log.timestamp).slice(11), log.type, log.name, log.calories, log.activityType])
+]);
+
+// Fasts are placed in the range by when they ended, matching the fasting statistics.
+export const buildFastingCsv = (logs: FastingLog[], from: number, to: number, getStageName: (hours: number) => string): string => toCsv([
+  ['Start', 'End', 'Duration (h)', 'Stage Reached'],
+  ...logs
+    .filter(log => log.endTime >= from && log.endTime < to)
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(log => [toDateTimeValue(log.startTime), toDateTimeValue(log.endTime), (log.duration / HOUR_MS).toFixed(2), getStageName(log.duration / HOUR_MS)])
+]);
+
+// Commas unless the header line has more semicolons (European spreadsheet exports) or tabs.
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length - 1 }));
+  return counts.reduce((best, c) => (c.n > best.n ? c : best)).d;
+};
+
+// Quoted fields may contain delimiters, doubled quotes and line breaks. Blank lines are dropped.
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\ufeff/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+};
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LogEntry } from '../types';
+import { setTimeZone, setDayStartHour } from './dates';
+import { parseCsv, detectDelimiter } from './csv';
+import { CSV_PRESETS, detectPreset, mapCsvRows, parseDateValue, parseTimeValue } from './csvImport';
+
+const utc = (value: string) => Date.parse(`${value}Z`);
+
+const preset = (id: string) => CSV_PRESETS.find(p => p.id === id)!.mapping;
+
+beforeEach(() => {
+  setTimeZone('UTC');
+  setDayStartHour(0);
+});
+
+describe('parseCsv', () => {
+  it('reads quoted delimiters, doubled quotes and line breaks', () => {
+    const text = '\ufeffName,Calories\r\n"Rice, beans",600\r\n"The ""big"" one",900\n"Two\nlines",10\n\n';
+    expect(parseCsv(text)).toEqual([
+      ['Name', 'Calories'],
+      ['Rice, beans', '600'],
+      ['The "big" one', '900'],
+      ['Two\nlines', '10']
+    ]);
+  });
+
+  it('detects semicolon and tab separated files', () => {
+    expect(detectDelimiter('Date;Name;Calories\n2026-10-12;Soup;1,5')).toBe(';');
+    expect(detectDelimiter('Date\tName\tCalories')).toBe('\t');
+    expect(parseCsv('Date;Name;Calories\n12.10.2026;Soup;"1,5"')).toEqual([['Date', 'Name', 'Calories'], ['12.10.2026', 'Soup', '1,5']]);
+  });
+});
+
+describe('detectPreset', () => {
+  it('picks the preset whose columns are all present', () => {
+    expect(detectPreset(['Day', 'Time', 'Group', 'Food Name', 'Energy (kcal)', 'Protein (g)'])?.id).toBe('cronometer');
+    expect(detectPreset(['Date', 'Type', 'Name', 'Calories'])?.id).toBe('loseit');
+    expect(detectPreset(['Date', 'Time', 'Type', 'Name', 'Calories', 'Activity Type'])?.id).toBe('selflove');
+    expect(detectPreset(['When', 'What', 'kcal'])).toBeNull();
+  });
+});
+
+describe('field parsing', () => {
+  it('reads dates in each format and rejects impossible ones', () => {
+    expect(parseDateValue('2026-10-12', 'YYYY-MM-DD')).toBe('2026-10-12');
+    expect(parseDateValue('10/12/2026', 'MM/DD/YYYY')).toBe('2026-10-12');
+    expect(parseDateValue('12/10/2026', 'DD/MM/YYYY')).toBe('2026-10-12');
+    expect(parseDateValue('12.10.2026', 'DD.MM.YYYY')).toBe('2026-10-12');
+    expect(parseDateValue('2026-02-30', 'YYYY-MM-DD')).toBeNull();
+    expect(parseDateValue('yesterday', 'YYYY-MM-DD')).toBeNull();
+  });
+
+  it('reads 24-hour and 12-hour times', () => {
+    expect(parseTimeValue('18:05')).toBe('18:05');
+    expect(parseTimeValue('6:05 PM')).toBe('18:05');
+    expect(parseTimeValue('12am')).toBe('00:00');
+    expect(parseTimeValue('13pm')).toBeNull();
+    expect(parseTimeValue('24:00')).toBeNull();
+  });
+});
+
+describe('mapCsvRows', () => {
+  const loseIt = preset('loseit');
+
+  it('maps rows to entries', () => {
+    const rows = parseCsv('Date,Type,Name,Calories\n10/12/2026,Breakfast,Oatmeal,"1,250"\n10/12/2026,Snacks,Apple,95.4');
+    expect(mapCsvRows(rows, loseIt, [])).toEqual({
+      entries: [
+        { type: 'food', name: 'Oatmeal', calories: 1250, timestamp: utc('2026-10-12T12:00'), meal: 'breakfast' },
+        { type: 'food', name: 'Apple', calories: 95, timestamp: utc('2026-10-12T12:00'), meal: 'snack' }
+      ],
+      duplicates: 0,
+      errors: []
+    });
+  });
+
+  it('reports unreadable rows by line and imports the rest', () => {
+    const rows = parseCsv('Date,Type,Name,Calories\n13/45/2026,Lunch,Soup,300\n10/12/2026,Lunch,Soup,lots\n10/12/2026,Lunch,,300\n10/12/2026,Lunch,Soup,-5\n10/12/2026,Lunch,Soup,300');
+    const result = mapCsvRows(rows, loseIt, []);
+    expect(result.errors).toEqual([
+      { line: 2, message: 'Unreadable date "13/45/2026"' },
+      { line: 3, message: 'Unreadable calories "lots"' },
+      { line: 4, message: 'Missing name' },
+      { line: 5, message: 'Unreadable calories "-5"' }
+    ]);
+    expect(result.entries).toHaveLength(1);
+  });
+
+  it('needs the date, name and calories columns', () => {
+    const rows = parseCsv('Date,Name\n10/12/2026,Soup');
+    expect(mapCsvRows(rows, loseIt, [])).toEqual({ entries: [], duplicates: 0, errors: [{ line: 1, message: 'Date, name and calories columns must be mapped' }] });
+  });
+
+  it('skips rows already logged that day but keeps repeats within the file', () => {
+    const existing: LogEntry[] = [{ id: 'soup', type: 'food', name: 'soup ', calories: 300, timestamp: utc('2026-10-12T19:00') }];
+    const rows = parseCsv('Date,Type,Name,Calories\n10/12/2026,Lunch,Soup,300\n10/13/2026,Lunch,Soup,300\n10/13/2026,Lunch,Soup,300\n10/12/2026,Lunch,Soup,350');
+    const result = mapCsvRows(rows, loseIt, existing);
+    expect(result.duplicates).toBe(1);
+    expect(result.entries.map(e => [e.timestamp, e.calories])).toEqual([
+      [utc('2026-10-13T12:00'), 300],
+      [utc('2026-10-13T12:00'), 300],
+      [utc('2026-10-12T12:00'), 350]
+    ]);
+  });
+
+  it('reads our own export back onto the same logical days', () => {
+    setDayStartHour(4);
+    const rows = parseCsv('Date,Time,Type,Name,Calories,Activity Type\n2026-10-12,01:30,food,Pizza,900,\n2026-10-12,18:00,activity,Running,400,Running');
+    expect(mapCsvRows(rows, preset('selflove'), []).entries).toEqual([
+      { type: 'food', name: 'Pizza', calories: 900, timestamp: utc('2026-10-13T01:30'), meal: undefined },
+      { type: 'activity', name: 'Running', calories: 400, timestamp: utc('2026-10-12T18:00'), activityType: 'Running' }
+    ]);
+  });
+});
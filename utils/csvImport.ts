@@ -0,0 +1,152 @@
+import { ActivityType, LogEntry, MealSlot } from '../types';
+import { startOfDay, shiftDate, fromDateInputValue, fromDateTimeInputValue } from './dates';
+
+export type DateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY';
+
+export const DATE_FORMATS: DateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'];
+
+// Header names to read each field from. Empty optional columns fall back to defaults.
+export interface ColumnMapping {
+  date: string;
+  time: string;
+  meal: string;
+  name: string;
+  calories: string;
+  type: string; // "food"/"activity"; everything is food when unmapped
+  dateFormat: DateFormat;
+  logicalDay?: boolean; // dates are logical days (our own export), not calendar dates
+}
+
+export interface CsvPreset {
+  id: string;
+  label: string;
+  mapping: ColumnMapping;
+}
+
+export const CSV_PRESETS: CsvPreset[] = [
+  { id: 'selflove', label: 'SelfLove export', mapping: { date: 'Date', time: 'Time', meal: '', name: 'Name', calories: 'Calories', type: 'Type', dateFormat: 'YYYY-MM-DD', logicalDay: true } },
+  { id: 'cronometer', label: 'Cronometer servings', mapping: { date: 'Day', time: 'Time', meal: 'Group', name: 'Food Name', calories: 'Energy (kcal)', type: '', dateFormat: 'YYYY-MM-DD' } },
+  { id: 'loseit', label: 'Lose It!', mapping: { date: 'Date', time: '', meal: 'Type', name: 'Name', calories: 'Calories', type: '', dateFormat: 'MM/DD/YYYY' } },
+  // MyFitnessPal's nutrition export has one row per meal rather than per food.
+  { id: 'myfitnesspal', label: 'MyFitnessPal meals', mapping: { date: 'Date', time: 'Time', meal: 'Meal', name: 'Meal', calories: 'Calories', type: '', dateFormat: 'YYYY-MM-DD' } }
+];
+
+export const EMPTY_MAPPING: ColumnMapping = { date: '', time: '', meal: '', name: '', calories: '', type: '', dateFormat: 'YYYY-MM-DD' };
+
+export interface CsvRowError {
+  line: number; // 1-based row number, the header being row 1
+  message: string;
+}
+
+export interface CsvImportResult {
+  entries: Omit<LogEntry, 'id'>[];
+  duplicates: number;
+  errors: CsvRowError[];
+}
+
+const ACTIVITY_TYPES: ActivityType[] = ['Walking', 'Running', 'Biking', 'HIIT', 'Daily Chores', 'Others'];
+
+const MEAL_KEYWORDS: [RegExp, MealSlot][] = [
+  [/breakfast|morning/i, 'breakfast'],
+  [/lunch|midday/i, 'lunch'],
+  [/dinner|supper|evening/i, 'dinner'],
+  [/snack/i, 'snack']
+];
+
+const getMappedHeaders = (mapping: ColumnMapping): string[] =>
+  [mapping.date, mapping.time, mapping.meal, mapping.name, mapping.calories, mapping.type].filter(h => h);
+
+// The preset with the most columns, all of which appear in the header row.
+export const detectPreset = (headers: string[]): CsvPreset | null =>
+  CSV_PRESETS
+    .filter(p => getMappedHeaders(p.mapping).every(h => headers.includes(h)))
+    .sort((a, b) => getMappedHeaders(b.mapping).length - getMappedHeaders(a.mapping).length)[0] || null;
+
+export const parseMealSlot = (value: string): MealSlot | undefined =>
+  MEAL_KEYWORDS.find(([pattern]) => pattern.test(value))?.[1];
+
+export const parseDateValue = (value: string, format: DateFormat): string | null => {
+  const parts = value.trim().split(/[-/.T ]/).map(Number);
+  if (parts.length < 3 || parts.slice(0, 3).some(n => !Number.isInteger(n))) return null;
+  const [y, m, d] = format === 'YYYY-MM-DD' ? parts : format === 'MM/DD/YYYY' ? [parts[2], parts[0], parts[1]] : [parts[2], parts[1], parts[0]];
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (y < 1900 || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+};
+
+// Accepts "18:05", "6:05 PM" and "6pm".
+export const parseTimeValue = (value: string): string | null => {
+  const match = /^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i.exec(value.trim());
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = Number(match[2] || 0);
+  const period = match[3]?.toLowerCase()[0];
+  if (period && (hour < 1 || hour > 12)) return null;
+  if (period === 'p' && hour < 12) hour += 12;
+  if (period === 'a' && hour === 12) hour = 0;
+  if (hour > 23 || minute > 59) return null;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+// Thousands separators and decimal commas both show up in exports.
+const parseCalories = (value: string): number | null => {
+  const cleaned = value.trim().replace(/\s|kcal/gi, '');
+  const normalized = /^\d{1,3}(,\d{3})+(\.\d+)?$/.test(cleaned) ? cleaned.replace(/,/g, '') : cleaned.replace(',', '.');
+  const calories = Number(normalized);
+  return normalized !== '' && Number.isFinite(calories) && calories >= 0 ? Math.round(calories) : null;
+};
+
+const getDedupeKey = (log: { type: string; name: string; calories: number; timestamp: number }): string =>
+  `${log.type}|${startOfDay(log.timestamp)}|${log.name.trim().toLowerCase()}|${log.calories}`;
+
+type MappedColumn = 'date' | 'time' | 'meal' | 'name' | 'calories' | 'type';
+
+// Returns the entry, or a message describing why the row can't be imported.
+const mapRow = (cell: (column: MappedColumn) => string, mapping: ColumnMapping): Omit<LogEntry, 'id'> | string => {
+  const date = parseDateValue(cell('date'), mapping.dateFormat);
+  if (!date) return `Unreadable date "${cell('date')}"`;
+  // Rows with no time get midday so they land on the right day whatever the day-start hour.
+  const time = cell('time') ? parseTimeValue(cell('time')) : '12:00';
+  if (!time) return `Unreadable time "${cell('time')}"`;
+  const name = cell('name');
+  if (!name) return 'Missing name';
+  const calories = parseCalories(cell('calories'));
+  if (calories === null) return `Unreadable calories "${cell('calories')}"`;
+
+  let timestamp = fromDateTimeInputValue(`${date}T${time}`);
+  // Before the day-start hour, a logical day's time falls on the next calendar date.
+  if (mapping.logicalDay && timestamp < fromDateInputValue(date)) {
+    timestamp = fromDateTimeInputValue(`${shiftDate(date, 1)}T${time}`);
+  }
+  if (/activity|exercise/i.test(cell('type'))) {
+    return { type: 'activity', name, calories, timestamp, activityType: ACTIVITY_TYPES.find(t => t.toLowerCase() === name.toLowerCase()) || 'Others' };
+  }
+  return { type: 'food', name, calories, timestamp, meal: parseMealSlot(cell('meal')) };
+};
+
+// A row matching an existing entry on the same day (name and calories) counts as a duplicate.
+// Repeats within the file are kept, since the same food can be eaten twice in a day.
+export const mapCsvRows = (rows: string[][], mapping: ColumnMapping, existing: LogEntry[]): CsvImportResult => {
+  const [headers = [], ...body] = rows;
+  const result: CsvImportResult = { entries: [], duplicates: 0, errors: [] };
+  if (![mapping.date, mapping.name, mapping.calories].every(h => h && headers.includes(h))) {
+    result.errors.push({ line: 1, message: 'Date, name and calories columns must be mapped' });
+    return result;
+  }
+
+  const existingKeys = new Set(existing.map(getDedupeKey));
+  body.forEach((row, i) => {
+    const mapped = mapRow(column => {
+      const index = mapping[column] ? headers.indexOf(mapping[column]) : -1;
+      return index >= 0 ? (row[index] || '').trim() : '';
+    }, mapping);
+    if (typeof mapped === 'string') {
+      result.errors.push({ line: i + 2, message: mapped });
+    } else if (existingKeys.has(getDedupeKey(mapped))) {
+      result.duplicates++;
+    } else {
+      result.entries.push(mapped);
+    }
+  });
+  return result;
+};
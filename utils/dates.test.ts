@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { setTimeZone, setDayStartHour, startOfDay, addDays, shiftDate, isSameDay, toDateInputValue, fromDateInputValue, MAX_DAY_START_HOUR } from './dates';
+
+const HOUR_MS = 60 * 60 * 1000;
+const utc = (value: string) => Date.parse(`${value}Z`);
+
+beforeEach(() => {
+  setTimeZone('UTC');
+  setDayStartHour(0);
+});
+
+describe('day-start hour', () => {
+  beforeEach(() => setDayStartHour(4));
+
+  it('counts 3:59 towards the day before and 4:00 towards the new day', () => {
+    expect(toDateInputValue(utc('2026-01-10T03:59'))).toBe('2026-01-09');
+    expect(toDateInputValue(utc('2026-01-10T04:00'))).toBe('2026-01-10');
+    expect(startOfDay(utc('2026-01-10T03:59'))).toBe(utc('2026-01-09T04:00'));
+    expect(startOfDay(utc('2026-01-10T04:00'))).toBe(utc('2026-01-10T04:00'));
+    expect(isSameDay(utc('2026-01-09T23:00'), utc('2026-01-10T03:59'))).toBe(true);
+    expect(isSameDay(utc('2026-01-10T03:59'), utc('2026-01-10T04:00'))).toBe(false);
+  });
+
+  it('moves whole logical days with addDays', () => {
+    expect(addDays(utc('2026-01-10T03:59'), 1)).toBe(utc('2026-01-10T04:00'));
+    expect(addDays(utc('2026-01-10T04:00'), -1)).toBe(utc('2026-01-09T04:00'));
+    expect(addDays(utc('2026-03-01T02:00'), 1)).toBe(utc('2026-03-01T04:00'));
+  });
+
+  it('clamps to MAX_DAY_START_HOUR and to midnight', () => {
+    setDayStartHour(15);
+    expect(startOfDay(utc('2026-01-10T10:59'))).toBe(utc(`2026-01-09T${MAX_DAY_START_HOUR}:00`));
+    expect(startOfDay(utc('2026-01-10T11:00'))).toBe(utc('2026-01-10T11:00'));
+    setDayStartHour(-3);
+    expect(startOfDay(utc('2026-01-10T00:30'))).toBe(utc('2026-01-10T00:00'));
+    setDayStartHour(4.7);
+    expect(startOfDay(utc('2026-01-10T04:00'))).toBe(utc('2026-01-10T04:00'));
+  });
+});
+
+describe('daylight saving time', () => {
+  beforeEach(() => setTimeZone('America/New_York'));
+
+  it('gives the spring-forward day 23 hours', () => {
+    const day = startOfDay(utc('2026-03-08T17:00'));
+    expect(day).toBe(utc('2026-03-08T05:00'));
+    expect(addDays(day, 1) - day).toBe(23 * HOUR_MS);
+    expect(toDateInputValue(utc('2026-03-09T03:59'))).toBe('2026-03-08');
+  });
+
+  it('gives the fall-back day 25 hours', () => {
+    const day = startOfDay(utc('2026-11-01T17:00'));
+    expect(day).toBe(utc('2026-11-01T04:00'));
+    expect(addDays(day, 1) - day).toBe(25 * HOUR_MS);
+    expect(toDateInputValue(utc('2026-11-02T04:59'))).toBe('2026-11-01');
+  });
+
+  it('starts a day whose start hour is skipped just after the jump', () => {
+    setDayStartHour(2);
+    expect(fromDateInputValue('2026-03-08')).toBe(utc('2026-03-08T07:00'));
+    expect(toDateInputValue(utc('2026-03-08T06:59'))).toBe('2026-03-07');
+    expect(toDateInputValue(utc('2026-03-08T07:00'))).toBe('2026-03-08');
+  });
+});
+
+describe('shiftDate', () => {
+  it('moves calendar dates across month, year and leap-day boundaries', () => {
+    expect(shiftDate('2026-10-31', 1)).toBe('2026-11-01');
+    expect(shiftDate('2027-01-01', -1)).toBe('2026-12-31');
+    expect(shiftDate('2028-02-28', 1)).toBe('2028-02-29');
+  });
+});
+
+describe('date input values', () => {
+  const dates = ['2026-01-01', '2026-03-08', '2026-03-09', '2026-10-31', '2026-11-01', '2026-12-31', '2028-02-29'];
+
+  it.each([
+    ['UTC', 0],
+    ['America/New_York', 0],
+    ['America/New_York', 4],
+    ['Europe/Berlin', MAX_DAY_START_HOUR],
+    ['Australia/Lord_Howe', 2]
+  ])('round-trips in %s with a %i:00 day start', (zone, hour) => {
+    setTimeZone(zone);
+    setDayStartHour(hour);
+    dates.forEach(value => {
+      const day = fromDateInputValue(value);
+      expect(toDateInputValue(day)).toBe(value);
+      expect(startOfDay(day)).toBe(day);
+      expect(fromDateInputValue(toDateInputValue(day + 20 * HOUR_MS))).toBe(startOfDay(day + 20 * HOUR_MS));
+    });
+  });
+});
@@ -0,0 +1,171 @@
+// All calendar math goes through the active time zone, set from the profile via `setTimeZone`.
+// Zones are IANA names; fixed offsets use the `Etc/GMT` zones (whose signs are inverted).
+// "Days" are logical days that begin at the profile's day-start hour rather than at midnight,
+// so a 1am snack with a 4am start still counts towards the evening before.
+
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+let activeZone = getDeviceTimeZone();
+let dayStartHour = 0;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export const isValidTimeZone = (zone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const setTimeZone = (zone: string): void => {
+  activeZone = isValidTimeZone(zone) ? zone : getDeviceTimeZone();
+};
+
+export const getTimeZone = (): string => activeZone;
+
+// Kept before noon so a day's midday default time always falls inside it.
+export const MAX_DAY_START_HOUR = 11;
+
+export const setDayStartHour = (hour: number): void => {
+  dayStartHour = Math.min(MAX_DAY_START_HOUR, Math.max(0, Math.floor(hour) || 0));
+};
+
+// "GMT+5" -> "Etc/GMT-5"
+export const fromGmtOffset = (offset: string): string | null => {
+  const match = /^GMT([+-])(\d{1,2})$/.exec(offset);
+  if (!match) return null;
+  const hours = Number(match[2]);
+  return hours === 0 ? 'Etc/GMT' : `Etc/GMT${match[1] === '+' ? '-' : '+'}${hours}`;
+};
+
+// Offsets picked before zones were honored become the device zone when they agree with it right
+// now (gaining its DST rules), otherwise the equivalent fixed zone. The untouched "GMT+0" default
+// was never applied, so it becomes the device zone as well.
+export const migrateTimeZone = (zone: string | undefined, now: number = Date.now()): string => {
+  const device = getDeviceTimeZone();
+  if (!zone || zone === 'GMT+0') return device;
+  const fixed = fromGmtOffset(zone);
+  if (!fixed) return isValidTimeZone(zone) ? zone : device;
+  return getZoneOffset(now, device) === getZoneOffset(now, fixed) ? device : fixed;
+};
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getFormatter = (zone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone: zone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric', weekday: 'short' });
+    formatters.set(zone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (ts: number, zone: string = activeZone): ZonedParts => {
+  const parts: Record<string, string> = {};
+  getFormatter(zone).formatToParts(new Date(ts)).forEach(p => { parts[p.type] = p.value; });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+// Offset of the zone from UTC at `ts`, in ms.
+export const getZoneOffset = (ts: number, zone: string = activeZone): number => {
+  const p = getZonedParts(ts, zone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(ts / 1000) * 1000;
+};
+
+// Wall-clock time in the active zone -> timestamp. Out-of-range fields roll over like `Date.UTC`.
+// Times skipped by a DST jump land after it; repeated times resolve to the earlier instant.
+const fromZonedParts = (year: number, month: number, day: number, hour: number = 0, minute: number = 0): number => {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = asUtc - getZoneOffset(asUtc);
+  const offset = getZoneOffset(guess);
+  const result = asUtc - offset;
+  return getZoneOffset(result) === offset ? result : guess;
+};
+
+export const getHourOfDay = (ts: number): number => getZonedParts(ts).hour;
+
+// The calendar date of the logical day containing `ts`.
+const getLogicalDate = (ts: number): { year: number; month: number; day: number; weekday: number } => {
+  const p = getZonedParts(ts);
+  if (p.hour >= dayStartHour) return p;
+  const previous = new Date(Date.UTC(p.year, p.month - 1, p.day - 1));
+  return { year: previous.getUTCFullYear(), month: previous.getUTCMonth() + 1, day: previous.getUTCDate(), weekday: previous.getUTCDay() };
+};
+
+export const startOfDay = (ts: number): number => {
+  const p = getLogicalDate(ts);
+  return fromZonedParts(p.year, p.month, p.day, dayStartHour);
+};
+
+export const isSameDay = (d1: number, d2: number): boolean => startOfDay(d1) === startOfDay(d2);
+
+export const addDays = (ts: number, days: number): number => {
+  const p = getLogicalDate(ts);
+  return fromZonedParts(p.year, p.month, p.day + days, dayStartHour);
+};
+
+// Calendar arithmetic on "YYYY-MM-DD" values; no zone involved.
+export const shiftDate = (date: string, days: number): string => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+
+export const toDateInputValue = (ts: number): string => {
+  const p = getLogicalDate(ts);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+};
+
+export const fromDateInputValue = (value: string): number => {
+  const [y, m, d] = value.split('-').map(Number);
+  return fromZonedParts(y, m, d, dayStartHour);
+};
+
+// Wall-clock values, so unlike the day helpers these ignore the day-start hour.
+export const toDateTimeInputValue = (ts: number): string => {
+  const p = getZonedParts(ts);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+// Counterpart for `datetime-local` inputs, which `new Date(value)` would read in device time.
+export const fromDateTimeInputValue = (value: string): number => {
+  const [date, time = '00:00'] = value.split('T');
+  const [y, m, d] = date.split('-').map(Number);
+  const [h, min] = time.split(':').map(Number);
+  return fromZonedParts(y, m, d, h, min);
+};
+
+// Weeks start on Monday.
+export const startOfWeek = (ts: number): number => {
+  const p = getLogicalDate(ts);
+  return fromZonedParts(p.year, p.month, p.day - ((p.weekday + 6) % 7), dayStartHour);
+};
+
+export const startOfMonth = (ts: number): number => {
+  const p = getLogicalDate(ts);
+  return fromZonedParts(p.year, p.month, 1, dayStartHour);
+};
+
+export const formatInZone = (ts: number, options: Intl.DateTimeFormatOptions = {}): string =>
+  new Date(ts).toLocaleString([], { ...options, timeZone: activeZone });
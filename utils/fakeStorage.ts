@@ -0,0 +1,12 @@
+// An in-memory `Storage` for tests, standing in for localStorage.
+export const createFakeStorage = (items: Record<string, string> = {}): Storage => {
+  const values = new Map(Object.entries(items));
+  return {
+    get length() { return values.size; },
+    key: index => [...values.keys()][index] ?? null,
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, String(value)); },
+    removeItem: key => { values.delete(key); },
+    clear: () => values.clear()
+  };
+};
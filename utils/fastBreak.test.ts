@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { LogEntry, FastingLog } from '../types';
+import { annotateBreakFasts } from './fastBreak';
+
+const HOUR_MS = 60 * 60 * 1000;
+const END = Date.parse('2026-10-12T12:00Z');
+
+const food = (id: string, hoursAfter: number, calories: number, extra: Partial<LogEntry> = {}): LogEntry =>
+  ({ id, type: 'food', name: `Meal ${id}`, calories, timestamp: END + hoursAfter * HOUR_MS, ...extra });
+
+const fast: FastingLog = { id: 'fast', startTime: END - 16 * HOUR_MS, endTime: END, duration: 16 * HOUR_MS };
+
+describe('annotateBreakFasts', () => {
+  it('links the first meal over the threshold within the window', () => {
+    const [annotated] = annotateBreakFasts([fast], [food('coffee', 0.5, 10), food('lunch', 1, 600), food('dinner', 6, 800)], 50);
+    expect(annotated.breakFastMeal).toEqual({ logId: 'lunch', name: 'Meal lunch', calories: 600, timestamp: END + HOUR_MS });
+    expect(annotateBreakFasts([fast], [food('late', 5, 600)], 50)[0].breakFastMeal).toBeUndefined();
+  });
+
+  it('describes a saved meal by its name and total', () => {
+    const group = { groupId: 'g', groupName: 'Brunch' };
+    const [annotated] = annotateBreakFasts([fast], [food('eggs', 1, 300, group), food('toast', 1, 200, group)], 50);
+    expect(annotated.breakFastMeal).toMatchObject({ logId: 'eggs', name: 'Brunch', calories: 500 });
+  });
+
+  it('keeps the copy once the entry is deleted', () => {
+    const fasts = annotateBreakFasts([fast], [food('lunch', 1, 600)], 50);
+    expect(annotateBreakFasts(fasts, [food('dinner', 2, 800)], 50)).toBe(fasts);
+  });
+
+  it('follows edits to the linked entry', () => {
+    const fasts = annotateBreakFasts([fast], [food('lunch', 1, 600)], 50);
+    const [edited] = annotateBreakFasts(fasts, [food('lunch', 1, 450, { name: 'Salad' })], 50);
+    expect(edited.breakFastMeal).toEqual({ logId: 'lunch', name: 'Salad', calories: 450, timestamp: END + HOUR_MS });
+    expect(annotateBreakFasts(fasts, [food('lunch', 1, 600)], 50)).toBe(fasts);
+  });
+});
@@ -0,0 +1,66 @@
+import { LogEntry, FastingLog, FastingState, FastBreakRule, BreakFastMeal } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Black coffee, tea and the like don't count as breaking a fast.
+export const DEFAULT_FAST_BREAK_RULE: FastBreakRule = { mode: 'ask', threshold: 50 };
+
+// Food logged this long after a fast ended still counts as what broke it.
+export const BREAK_FAST_WINDOW_HOURS = 4;
+
+const isMeal = (log: { type: LogEntry['type']; calories: number }, threshold: number): boolean =>
+  log.type === 'food' && log.calories > threshold;
+
+// The earliest new entry that would break the running fast, if any.
+export const findFastBreakingEntry = <T extends { type: LogEntry['type']; calories: number; timestamp: number }>(entries: T[], fastingState: FastingState, rule: FastBreakRule): T | null => {
+  const { isActive, startTime } = fastingState;
+  if (!isActive || !startTime) return null;
+  return entries
+    .filter(entry => isMeal(entry, rule.threshold) && entry.timestamp >= startTime)
+    .sort((a, b) => a.timestamp - b.timestamp)[0] || null;
+};
+
+// Entries logged together from a saved meal are described as that meal.
+const toBreakFastMeal = (log: LogEntry, logs: LogEntry[]): BreakFastMeal => {
+  const group = log.groupId ? logs.filter(l => l.groupId === log.groupId) : [log];
+  return {
+    logId: log.id,
+    name: log.groupName || log.name,
+    calories: group.reduce((sum, l) => sum + l.calories, 0),
+    timestamp: log.timestamp
+  };
+};
+
+export const findBreakFastMeal = (fast: FastingLog, foods: LogEntry[], logs: LogEntry[]): BreakFastMeal | null => {
+  const meal = foods.find(log => log.timestamp >= fast.endTime && log.timestamp <= fast.endTime + BREAK_FAST_WINDOW_HOURS * HOUR_MS);
+  return meal ? toBreakFastMeal(meal, logs) : null;
+};
+
+// Links completed fasts to the first meal after them. A linked meal follows edits to its entry
+// and is kept as it was once the entry is deleted. The same array comes back when nothing
+// changed so callers can skip the update.
+export const annotateBreakFasts = (fastingLogs: FastingLog[], logs: LogEntry[], threshold: number): FastingLog[] => {
+  const foods = logs.filter(log => isMeal(log, threshold)).sort((a, b) => a.timestamp - b.timestamp);
+  const byId = new Map(logs.map(log => [log.id, log]));
+  let changed = false;
+  const annotated = fastingLogs.map(fast => {
+    const linked = fast.breakFastMeal;
+    if (linked) {
+      const entry = byId.get(linked.logId);
+      if (!entry) return fast;
+      const { name, calories } = toBreakFastMeal(entry, logs);
+      if (name === linked.name && calories === linked.calories) return fast;
+      changed = true;
+      return { ...fast, breakFastMeal: { ...linked, name, calories } };
+    }
+    const meal = findBreakFastMeal(fast, foods, logs);
+    if (!meal) return fast;
+    changed = true;
+    return { ...fast, breakFastMeal: meal };
+  });
+  return changed ? annotated : fastingLogs;
+};
+
+// Food only; activities don't end the time since eating.
+export const getLastMealTime = (logs: LogEntry[], threshold: number, now: number): number | null =>
+  logs.reduce<number | null>((last, log) => isMeal(log, threshold) && log.timestamp <= now && (last === null || log.timestamp > last) ? log.timestamp : last, null);
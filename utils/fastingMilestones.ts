@@ -0,0 +1,41 @@
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long past its goal a fast runs before a reminder that it's still going.
+export const OVER_GOAL_HOURS = 8;
+
+export interface FastingMilestone {
+  id: string; // unique per fast, so a notification is never shown twice
+  at: number;
+  title: string;
+  body: string;
+}
+
+// Entering each stage after the first, reaching the goal, then running well past it.
+export const getFastingMilestones = (startTime: number, targetHours: number, stages: { hours: number; name: string }[]): FastingMilestone[] => [
+  ...stages.filter(stage => stage.hours > 0).map(stage => ({
+    id: `${startTime}:stage:${stage.hours}`,
+    at: startTime + stage.hours * HOUR_MS,
+    title: stage.name,
+    body: `${stage.hours}h into your fast.`
+  })),
+  {
+    id: `${startTime}:goal`,
+    at: startTime + targetHours * HOUR_MS,
+    title: 'Fasting goal reached',
+    body: `You've fasted ${targetHours}h. End the fast whenever you're ready.`
+  },
+  {
+    id: `${startTime}:over`,
+    at: startTime + (targetHours + OVER_GOAL_HOURS) * HOUR_MS,
+    title: 'Still fasting',
+    body: `Your fast is ${OVER_GOAL_HOURS}h past its ${targetHours}h goal. Did you forget to end it?`
+  }
+].sort((a, b) => a.at - b.at);
+
+// Milestones not yet notified: the latest one already passed (earlier ones are stale, e.g. after
+// the app was closed) and those still to come.
+export const getPendingMilestones = (milestones: FastingMilestone[], notifiedUntil: number, now: number): { missed: FastingMilestone | null; upcoming: FastingMilestone[] } => {
+  const unseen = milestones.filter(m => m.at > notifiedUntil);
+  const passed = unseen.filter(m => m.at <= now);
+  return { missed: passed[passed.length - 1] || null, upcoming: unseen.filter(m => m.at > now) };
+};
@@ -0,0 +1,87 @@
+import { FastingLog, FastingPlan, EatingWindow } from '../types';
+import { shiftDate, toDateTimeInputValue, fromDateTimeInputValue } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const DEFAULT_EATING_WINDOW: EatingWindow = { start: '12:00', end: '20:00' };
+
+export const DEFAULT_FASTING_PLAN: FastingPlan = { days: WEEKDAYS.map(() => DEFAULT_EATING_WINDOW), reminders: false };
+
+// A planned fast counts as followed when logged fasts cover this share of it, allowing for
+// a fast started or ended a little off schedule.
+export const ADHERENCE_COVERAGE = 0.9;
+
+export const ADHERENCE_WINDOW_DAYS = 28;
+
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+export interface PlanEvent {
+  type: 'opens' | 'closes';
+  at: number;
+}
+
+export interface PlanAdherence {
+  planned: number;
+  followed: number;
+}
+
+// 0 is Monday, matching `FastingPlan.days`.
+const getWeekdayIndex = (date: string): number => (new Date(`${date}T00:00Z`).getUTCDay() + 6) % 7;
+
+// Windows are wall-clock times in the active zone, so they follow calendar dates rather than
+// logical days. Returns those overlapping [from, to), in order.
+export const getEatingWindows = (plan: FastingPlan, from: number, to: number): TimeSpan[] => {
+  const windows: TimeSpan[] = [];
+  const last = toDateTimeInputValue(to).slice(0, 10);
+  // Starting a day early picks up a window that runs past midnight into `from`.
+  for (let date = shiftDate(toDateTimeInputValue(from).slice(0, 10), -1); date <= last; date = shiftDate(date, 1)) {
+    const window = plan.days[getWeekdayIndex(date)];
+    if (!window) continue;
+    const start = fromDateTimeInputValue(`${date}T${window.start}`);
+    const end = fromDateTimeInputValue(`${window.end <= window.start ? shiftDate(date, 1) : date}T${window.end}`);
+    if (start < to && end > from) windows.push({ start, end });
+  }
+  return windows;
+};
+
+// The fasts the plan implies are the gaps between eating windows, so a day without a window
+// joins the evening before and the morning after into one long fast. Placed by when they end.
+export const getPlannedFasts = (plan: FastingPlan, from: number, to: number): TimeSpan[] => {
+  const windows = getEatingWindows(plan, from - 8 * DAY_MS, to + 8 * DAY_MS);
+  return windows.slice(1)
+    .map((window, i) => ({ start: windows[i].end, end: window.start }))
+    .filter(fast => fast.end > fast.start && fast.end >= from && fast.end < to);
+};
+
+// Whether the eating window is open now and when it next changes.
+export const getNextPlanEvent = (plan: FastingPlan, now: number): PlanEvent | null => {
+  const windows = getEatingWindows(plan, now, now + 8 * DAY_MS);
+  const current = windows.find(w => w.start <= now && now < w.end);
+  if (current) return { type: 'closes', at: current.end };
+  const next = windows.find(w => w.start > now);
+  return next ? { type: 'opens', at: next.start } : null;
+};
+
+const getCoveredMs = (span: TimeSpan, logs: FastingLog[]): number =>
+  logs.reduce((sum, log) => sum + Math.max(0, Math.min(log.endTime, span.end) - Math.max(log.startTime, span.start)), 0);
+
+// Planned fasts that finished in [from, to), checked against what was actually logged.
+export const calculatePlanAdherence = (plan: FastingPlan, logs: FastingLog[], from: number, to: number): PlanAdherence => {
+  const fasts = getPlannedFasts(plan, from, to);
+  return {
+    planned: fasts.length,
+    followed: fasts.filter(fast => getCoveredMs(fast, logs) >= ADHERENCE_COVERAGE * (fast.end - fast.start)).length
+  };
+};
+
+// "2h 10m", or just minutes under an hour.
+export const formatCountdown = (ms: number): string => {
+  const minutes = Math.max(0, Math.ceil(ms / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FastingLog } from '../types';
+import { setTimeZone, setDayStartHour } from './dates';
+import { isGoalMet, calculateStreaks, summarizeByPeriod, getOverallSummary, getFastingHoursByDay } from './fastingStats';
+
+const HOUR_MS = 60 * 60 * 1000;
+const utc = (value: string) => Date.parse(`${value}Z`);
+
+const fast = (start: string, hours: number, extra: Partial<FastingLog> = {}): FastingLog =>
+  ({ id: `fast-${start}`, startTime: utc(start), endTime: utc(start) + hours * HOUR_MS, duration: hours * HOUR_MS, ...extra });
+
+beforeEach(() => {
+  setTimeZone('UTC');
+  setDayStartHour(0);
+});
+
+describe('isGoalMet', () => {
+  it('falls back to the target, then to 16 hours, when the session has no verdict', () => {
+    expect(isGoalMet(fast('2026-10-12T20:00', 16))).toBe(true);
+    expect(isGoalMet(fast('2026-10-12T20:00', 15))).toBe(false);
+    expect(isGoalMet(fast('2026-10-12T20:00', 15, { targetHours: 14 }))).toBe(true);
+    expect(isGoalMet(fast('2026-10-12T20:00', 20, { goalMet: false }))).toBe(false);
+  });
+});
+
+describe('calculateStreaks', () => {
+  // Goals met on 13, 14, 15 and 17 October; the fast ending on the 16th fell short.
+  const logs = [
+    fast('2026-10-12T20:00', 16),
+    fast('2026-10-13T20:00', 16),
+    fast('2026-10-14T20:00', 16),
+    fast('2026-10-15T20:00', 10),
+    fast('2026-10-16T20:00', 16)
+  ];
+
+  it('breaks the streak on a missed day', () => {
+    expect(calculateStreaks(logs, utc('2026-10-17T15:00'))).toEqual({ current: 1, longest: 3 });
+  });
+
+  it('keeps the current streak alive until today is over', () => {
+    expect(calculateStreaks(logs, utc('2026-10-18T23:00'))).toEqual({ current: 1, longest: 3 });
+    expect(calculateStreaks(logs, utc('2026-10-19T00:00'))).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('counts two fasts ending on one day once', () => {
+    const twice = [fast('2026-10-12T20:00', 16), fast('2026-10-13T00:00', 18), fast('2026-10-13T20:00', 16)];
+    expect(calculateStreaks(twice, utc('2026-10-15T10:00'))).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('follows the day-start hour', () => {
+    // The first ends at 2am, before the second's day begins.
+    const logs = [fast('2026-10-13T10:00', 16), fast('2026-10-14T04:00', 16)];
+    expect(calculateStreaks(logs, utc('2026-10-14T21:00'))).toEqual({ current: 1, longest: 1 });
+    setDayStartHour(4);
+    expect(calculateStreaks(logs, utc('2026-10-14T21:00'))).toEqual({ current: 2, longest: 2 });
+  });
+});
+
+describe('summaries', () => {
+  const logs = [fast('2026-09-29T20:00', 16), fast('2026-10-03T20:00', 20), fast('2026-10-05T20:00', 12)];
+
+  it('buckets sessions by the Monday week they ended in, newest first', () => {
+    expect(summarizeByPeriod(logs, 'week')).toEqual([
+      { periodStart: utc('2026-10-05T00:00'), fasts: 1, averageHours: 12, longestHours: 12, totalHours: 12 },
+      { periodStart: utc('2026-09-28T00:00'), fasts: 2, averageHours: 18, longestHours: 20, totalHours: 36 }
+    ]);
+  });
+
+  it('buckets sessions by the month they ended in', () => {
+    expect(summarizeByPeriod(logs, 'month').map(({ periodStart, fasts }) => ({ periodStart, fasts }))).toEqual([
+      { periodStart: utc('2026-10-01T00:00'), fasts: 2 },
+      { periodStart: utc('2026-09-01T00:00'), fasts: 1 }
+    ]);
+  });
+
+  it('summarizes everything from the first session', () => {
+    expect(getOverallSummary(logs)).toEqual({ periodStart: utc('2026-09-29T20:00'), fasts: 3, averageHours: 16, longestHours: 20, totalHours: 48 });
+    expect(getOverallSummary([])).toEqual({ periodStart: 0, fasts: 0, averageHours: 0, longestHours: 0, totalHours: 0 });
+  });
+});
+
+describe('getFastingHoursByDay', () => {
+  it('splits sessions at midnight', () => {
+    const byDay = getFastingHoursByDay([fast('2026-10-12T20:00', 16), fast('2026-10-13T18:00', 40)]);
+    expect([...byDay.entries()]).toEqual([
+      [utc('2026-10-12T00:00'), 4],
+      [utc('2026-10-13T00:00'), 18],
+      [utc('2026-10-14T00:00'), 24],
+      [utc('2026-10-15T00:00'), 10]
+    ]);
+  });
+
+  it('splits sessions at the day-start hour', () => {
+    setDayStartHour(4);
+    const byDay = getFastingHoursByDay([fast('2026-10-12T20:00', 16)]);
+    expect([...byDay.entries()]).toEqual([
+      [utc('2026-10-12T04:00'), 8],
+      [utc('2026-10-13T04:00'), 8]
+    ]);
+  });
+});
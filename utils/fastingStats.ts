@@ -0,0 +1,92 @@
+import { FastingLog } from '../types';
+import { startOfDay, addDays, startOfWeek, startOfMonth } from './dates';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Sessions started before protocols existed were tracked against a 16h goal.
+export const DEFAULT_FASTING_HOURS = 16;
+
+export interface FastingStreaks {
+  current: number; // in days
+  longest: number; // in days
+}
+
+export interface FastingSummary {
+  periodStart: number;
+  fasts: number;
+  averageHours: number;
+  longestHours: number;
+  totalHours: number;
+}
+
+export const isGoalMet = (log: FastingLog): boolean =>
+  log.goalMet ?? log.duration >= (log.targetHours || DEFAULT_FASTING_HOURS) * HOUR_MS;
+
+const summarize = (periodStart: number, logs: FastingLog[]): FastingSummary => {
+  const hours = logs.map(log => log.duration / HOUR_MS);
+  const totalHours = hours.reduce((sum, h) => sum + h, 0);
+  return {
+    periodStart,
+    fasts: logs.length,
+    averageHours: logs.length ? totalHours / logs.length : 0,
+    longestHours: logs.length ? Math.max(...hours) : 0,
+    totalHours,
+  };
+};
+
+export const getOverallSummary = (logs: FastingLog[]): FastingSummary =>
+  summarize(logs.length ? Math.min(...logs.map(log => log.startTime)) : 0, logs);
+
+// A day counts once a fast that met its goal ended on it.
+export const getGoalMetDays = (logs: FastingLog[]): Set<number> =>
+  new Set(logs.filter(isGoalMet).map(log => startOfDay(log.endTime)));
+
+// The current streak stays alive through today until the day is over.
+export const calculateStreaks = (logs: FastingLog[], now: number = Date.now()): FastingStreaks => {
+  const days = getGoalMetDays(logs);
+  const sorted = [...days].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    run = i > 0 && addDays(sorted[i - 1], 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const today = startOfDay(now);
+  let cursor = days.has(today) ? today : addDays(today, -1);
+  let current = 0;
+  while (days.has(cursor)) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+  return { current, longest };
+};
+
+// Sessions are bucketed by the week (Monday start) or month in which they ended, newest first.
+export const summarizeByPeriod = (logs: FastingLog[], period: 'week' | 'month'): FastingSummary[] => {
+  const getPeriodStart = period === 'week' ? startOfWeek : startOfMonth;
+  const buckets = new Map<number, FastingLog[]>();
+  logs.forEach(log => {
+    const key = getPeriodStart(log.endTime);
+    buckets.set(key, [...(buckets.get(key) || []), log]);
+  });
+  return [...buckets.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([periodStart, periodLogs]) => summarize(periodStart, periodLogs));
+};
+
+// Hours fasted within each calendar day; sessions crossing midnight are split between days.
+export const getFastingHoursByDay = (logs: FastingLog[]): Map<number, number> => {
+  const byDay = new Map<number, number>();
+  logs.forEach(log => {
+    let cursor = log.startTime;
+    while (cursor < log.endTime) {
+      const day = startOfDay(cursor);
+      const next = Math.min(addDays(day, 1), log.endTime);
+      byDay.set(day, (byDay.get(day) || 0) + (next - cursor) / HOUR_MS);
+      cursor = next;
+    }
+  });
+  return byDay;
+};
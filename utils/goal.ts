@@ -0,0 +1,71 @@
+import { Gender, LogEntry, UserProfile } from '../types';
+import { startOfDay, addDays, fromDateInputValue } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const KCAL_PER_KG = 7700;
+
+// Commonly cited minimum daily intake without medical supervision.
+export const SAFE_INTAKE_FLOOR: Record<Gender, number> = { male: 1500, female: 1200 };
+
+// Today is still in progress, so intake is averaged over the days before it.
+export const INTAKE_WINDOW_DAYS = 14;
+
+export interface IntakeAverage {
+  average: number; // net kcal per logged day
+  days: number; // logged days in the window
+}
+
+export const getDaysUntil = (dateValue: string, now: number = Date.now()): number =>
+  Math.round((fromDateInputValue(dateValue) - startOfDay(now)) / DAY_MS);
+
+// Positive while losing, negative for a surplus. Null when no goal is driving the deficit
+// (or its target date has passed), in which case the manual `deficitGoal` applies.
+export const calculateRequiredDeficit = (profile: UserProfile, now: number = Date.now()): number | null => {
+  const { weight, goalWeight, goalDate, goalRate } = profile;
+  if (!goalWeight || !weight) return null;
+  const remainingKg = weight - goalWeight;
+  if (Math.abs(remainingKg) < 0.1) return 0;
+  if (goalDate) {
+    const days = getDaysUntil(goalDate, now);
+    return days > 0 ? Math.round((remainingKg * KCAL_PER_KG) / days) : null;
+  }
+  if (goalRate) return Math.round((Math.sign(remainingKg) * goalRate * KCAL_PER_KG) / 7);
+  return null;
+};
+
+export const getEffectiveDeficit = (profile: UserProfile, now: number = Date.now()): number =>
+  calculateRequiredDeficit(profile, now) ?? profile.deficitGoal;
+
+export const isBelowSafeFloor = (intake: number, gender: Gender): boolean => intake < SAFE_INTAKE_FLOOR[gender];
+
+// Days without any food logged are skipped rather than counted as zero intake.
+export const getAverageDailyIntake = (logs: LogEntry[], days: number = INTAKE_WINDOW_DAYS, now: number = Date.now()): IntakeAverage | null => {
+  const from = addDays(now, -days);
+  const to = startOfDay(now);
+  const totals = new Map<number, { food: number; net: number }>();
+  logs.forEach(log => {
+    if (log.timestamp < from || log.timestamp >= to) return;
+    const day = startOfDay(log.timestamp);
+    const total = totals.get(day) || { food: 0, net: 0 };
+    if (log.type === 'food') {
+      total.food += log.calories;
+      total.net += log.calories;
+    } else {
+      total.net -= log.calories;
+    }
+    totals.set(day, total);
+  });
+  const logged = [...totals.values()].filter(t => t.food > 0);
+  if (logged.length === 0) return null;
+  return { average: Math.round(logged.reduce((sum, t) => sum + t.net, 0) / logged.length), days: logged.length };
+};
+
+// Null when intake isn't moving weight towards the goal.
+export const projectGoalDate = (currentWeight: number, goalWeight: number, maintenance: number, averageIntake: number, now: number = Date.now()): number | null => {
+  const remainingKg = currentWeight - goalWeight;
+  if (Math.abs(remainingKg) < 0.1) return startOfDay(now);
+  const kgPerDay = (maintenance - averageIntake) / KCAL_PER_KG;
+  if (kgPerDay === 0 || Math.sign(kgPerDay) !== Math.sign(remainingKg)) return null;
+  return addDays(now, Math.ceil(remainingKg / kgPerDay));
+};
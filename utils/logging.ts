@@ -0,0 +1,68 @@
+import { LogEntry, LoggingReminders } from '../types';
+import { startOfDay, addDays, shiftDate, toDateInputValue, toDateTimeInputValue, fromDateTimeInputValue } from './dates';
+
+export const DEFAULT_LOGGING_REMINDERS: LoggingReminders = {
+  meals: [{ since: '09:00', at: '13:00' }, { since: '13:00', at: '19:00' }],
+  summaryTime: '21:00'
+};
+
+export interface LoggingReminder {
+  id: string;
+  at: number;
+  kind: 'meal' | 'summary';
+  since: number; // start of the span checked for food; the logical day's start for summaries
+}
+
+export interface DaySummary {
+  consumed: number;
+  burned: number;
+  entries: number;
+}
+
+// Days marked as not logged are left out of averages entirely, even if partly filled in,
+// rather than dragging them down as if little was eaten.
+export const excludeUnloggedDays = (logs: LogEntry[], unloggedDays: string[]): LogEntry[] => {
+  if (unloggedDays.length === 0) return logs;
+  const excluded = new Set(unloggedDays);
+  return logs.filter(log => !excluded.has(toDateInputValue(log.timestamp)));
+};
+
+export const hasFoodBetween = (logs: LogEntry[], from: number, to: number): boolean =>
+  logs.some(log => log.type === 'food' && log.timestamp >= from && log.timestamp < to);
+
+export const summarizeDay = (logs: LogEntry[], day: number): DaySummary => {
+  const dayLogs = logs.filter(log => startOfDay(log.timestamp) === startOfDay(day));
+  return {
+    consumed: dayLogs.filter(log => log.type === 'food').reduce((sum, log) => sum + log.calories, 0),
+    burned: dayLogs.filter(log => log.type === 'activity').reduce((sum, log) => sum + log.calories, 0),
+    entries: dayLogs.length
+  };
+};
+
+// Reminder times for the rest of today and tomorrow, wall-clock in the active zone.
+// A `since` later than `at` refers to the evening before.
+export const getUpcomingReminders = (settings: LoggingReminders, now: number): LoggingReminder[] => {
+  const today = toDateTimeInputValue(now).slice(0, 10);
+  const reminders: LoggingReminder[] = [];
+  [today, shiftDate(today, 1)].forEach(date => {
+    settings.meals.forEach(meal => {
+      const at = fromDateTimeInputValue(`${date}T${meal.at}`);
+      const since = fromDateTimeInputValue(`${meal.since <= meal.at ? date : shiftDate(date, -1)}T${meal.since}`);
+      reminders.push({ id: `meal:${at}`, at, kind: 'meal', since });
+    });
+    if (settings.summaryTime) {
+      const at = fromDateTimeInputValue(`${date}T${settings.summaryTime}`);
+      reminders.push({ id: `summary:${at}`, at, kind: 'summary', since: startOfDay(at) });
+    }
+  });
+  return reminders.filter(r => r.at > now).sort((a, b) => a.at - b.at);
+};
+
+// Yesterday, when it has no food logged and hasn't been marked unlogged. Nothing for someone
+// who only started logging since.
+export const getMissedDay = (logs: LogEntry[], unloggedDays: string[], now: number): number | null => {
+  const yesterday = addDays(startOfDay(now), -1);
+  if (unloggedDays.includes(toDateInputValue(yesterday))) return null;
+  if (hasFoodBetween(logs, yesterday, startOfDay(now))) return null;
+  return logs.some(log => log.timestamp < yesterday) ? yesterday : null;
+};
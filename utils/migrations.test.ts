@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { LogEntry, UserProfile } from '../types';
+import { createMemoryRepository, createStorageRepository } from './repository';
+import { CURRENT_SCHEMA_VERSION, LOCAL_STORAGE_KEYS, loadStoredData } from './migrations';
+import { createFakeStorage as createStorage } from './fakeStorage';
+
+const profile: UserProfile = { name: 'Sam', dob: '1990-01-01', height: 175, weight: 70, gender: 'male', timezone: 'UTC', activityLevel: 'moderately_active', deficitGoal: 500, manualLimit: null };
+const log: LogEntry = { id: '1', type: 'food', name: 'Oats', calories: 300, timestamp: 1000 };
+
+describe('loadStoredData', () => {
+  it('starts a fresh install on the current schema', async () => {
+    const repository = createMemoryRepository();
+    const { data, error } = await loadStoredData(repository, false, createStorage());
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ profile: null, logs: [], unloggedDays: [] });
+    expect(await repository.get('schemaVersion')).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('migrates the original wellflow keys', async () => {
+    const { timezone, activityLevel, deficitGoal, manualLimit, ...wellflowProfile } = profile;
+    const storage = createStorage({
+      wellflow_profile: JSON.stringify({ ...wellflowProfile, address: 'Somewhere' }),
+      wellflow_logs: JSON.stringify([log]),
+      wellflow_last_reset: '0'
+    });
+    const repository = createMemoryRepository();
+    const { data, error } = await loadStoredData(repository, false, storage);
+    expect(error).toBeNull();
+    expect(data!.profile).toMatchObject({ name: 'Sam', deficitGoal: 500, manualLimit: null });
+    expect(data!.profile).not.toHaveProperty('address');
+    expect(await repository.logs.getAll()).toEqual([log]);
+  });
+
+  it('upgrades into the localStorage repository without mistaking it for legacy data', async () => {
+    const storage = createStorage({ selflove_logs_v10: JSON.stringify([log]), selflove_user_v10: JSON.stringify(profile) });
+    const first = await loadStoredData(createStorageRepository(storage), false, storage);
+    expect(first.data!.logs).toEqual([log]);
+    expect(storage.getItem('selflove_logs_v10')).toBeNull();
+
+    const second = await loadStoredData(createStorageRepository(storage), false, storage);
+    expect(second.error).toBeNull();
+    expect(second.data).toMatchObject({ profile, logs: [log] });
+  });
+
+  it('reports data from a newer schema without touching it', async () => {
+    const repository = createMemoryRepository();
+    await repository.set('schemaVersion', CURRENT_SCHEMA_VERSION + 1);
+    const { error } = await loadStoredData(repository, false, createStorage());
+    expect(error).toMatchObject({ problem: 'newer' });
+    expect(await repository.get('schemaVersion')).toBe(CURRENT_SCHEMA_VERSION + 1);
+  });
+
+  it.each([1.5, -1, '2', { version: 2 }])('reports a stored schema version of %j as damaged', async (version) => {
+    const repository = createMemoryRepository();
+    await repository.set('schemaVersion', version as unknown as number);
+    await repository.logs.put([log]);
+    const { error } = await loadStoredData(repository, false, createStorage());
+    expect(error).toMatchObject({ problem: 'damaged', raw: { schemaVersion: version } });
+    expect(error!.details[0]).toMatch(/Schema version .* not recognised/);
+  });
+
+  it('keeps the readable data past an unrecognised schema version', async () => {
+    const repository = createMemoryRepository();
+    await repository.set('schemaVersion', 'two' as unknown as number);
+    await repository.logs.put([log]);
+    const { data, error } = await loadStoredData(repository, true, createStorage());
+    expect(error).toBeNull();
+    expect(data!.logs).toEqual([log]);
+    expect(await repository.get('schemaVersion')).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it('reports unreadable lists and drops them only when asked', async () => {
+    const storage = createStorage({ [LOCAL_STORAGE_KEYS.weights]: '{not json', [LOCAL_STORAGE_KEYS.unloggedDays]: JSON.stringify(['2026-01-01', 'soon']) });
+    const repository = createMemoryRepository();
+    await repository.set('schemaVersion', CURRENT_SCHEMA_VERSION);
+    const { error } = await loadStoredData(repository, false, storage);
+    expect(error).toMatchObject({ problem: 'damaged', details: [`${LOCAL_STORAGE_KEYS.weights}: not valid JSON`, 'Unlogged days: 1 unreadable'] });
+
+    const { data } = await loadStoredData(repository, true, storage);
+    expect(data).toMatchObject({ weights: [], unloggedDays: ['2026-01-01'] });
+    expect(storage.getItem(LOCAL_STORAGE_KEYS.weights)).toBe('[]');
+  });
+});
@@ -0,0 +1,193 @@
+import { UserProfile, FastingState } from '../types';
+import { BackupData, COLLECTION_LABELS, mapCollections } from './backup';
+import { migrateTimeZone } from './dates';
+import { Repository } from './repository';
+import { isObject, isProfile, isFastingState, filterRecords } from './validation';
+
+// 0: the original "wellflow" app, everything in localStorage under wellflow_* keys.
+// 1: selflove_*_v10 localStorage keys.
+// 2: logs, fasts, profile and fasting state in IndexedDB; the other lists still in localStorage.
+export const CURRENT_SCHEMA_VERSION = 2;
+
+export type StoredData = Omit<BackupData, 'profile' | 'fastingState'> & {
+  profile: UserProfile | null;
+  fastingState: FastingState | null;
+};
+
+type StorageKeys = Partial<Record<keyof StoredData, string>>;
+
+// The lists the current schema keeps in localStorage.
+export const LOCAL_STORAGE_KEYS = {
+  limitHistory: 'selflove_limit_history_v10',
+  foodLibrary: 'selflove_food_library_v10',
+  savedMeals: 'selflove_meals_v10',
+  weights: 'selflove_weights_v10',
+  unloggedDays: 'selflove_unlogged_days_v10'
+};
+
+const STORAGE_KEYS: Record<number, StorageKeys> = {
+  0: { profile: 'wellflow_profile', logs: 'wellflow_logs', fastingLogs: 'wellflow_fasting_logs', fastingState: 'wellflow_fasting_state' },
+  1: { profile: 'selflove_user_v10', logs: 'selflove_logs_v10', fastingLogs: 'selflove_fast_logs_v10', fastingState: 'selflove_fast_state_v10', ...LOCAL_STORAGE_KEYS },
+  2: LOCAL_STORAGE_KEYS
+};
+
+// Written by version 0 but no longer meaningful.
+const OBSOLETE_KEYS = ['wellflow_last_reset'];
+
+// Stored data before validation; any field may be missing or malformed.
+type Snapshot = Record<keyof StoredData, unknown>;
+
+interface Migration {
+  version: number; // the schema version this step upgrades to
+  description: string;
+  up: (data: Snapshot) => Snapshot;
+}
+
+// Applied in order to data saved under an older schema. Steps only reshape records; where the
+// data lives is decided by the version it was read from.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Drop the wellflow profile address and add the calorie goal fields',
+    up: data => {
+      if (!isObject(data.profile)) return data;
+      const { address, ...profile } = data.profile;
+      return { ...data, profile: { timezone: 'GMT+0', activityLevel: 'moderately_active', deficitGoal: 500, manualLimit: null, ...profile } };
+    }
+  },
+  {
+    version: 2,
+    description: 'Replace GMT offset time zones with IANA zones',
+    up: data => {
+      if (!isObject(data.profile)) return data;
+      const { timezone } = data.profile;
+      return { ...data, profile: { ...data.profile, timezone: migrateTimeZone(typeof timezone === 'string' ? timezone : undefined) } };
+    }
+  }
+];
+
+export interface LoadFailure {
+  problem: 'newer' | 'damaged' | 'unavailable'; // unavailable: storage itself failed
+  details: string[]; // what couldn't be read, for the recovery screen
+  raw: Record<string, unknown>; // everything as found, for the user to download before starting over
+}
+
+export type LoadResult = { data: StoredData; error: null } | { data: null; error: LoadFailure };
+
+const isSchemaVersion = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+
+// A stored version that isn't one is reported by `loadStoredData`; to read what's there anyway
+// the schema is worked out as if none had been stored.
+const detectVersion = async (repository: Repository, storage: Storage): Promise<{ version: number; invalid: unknown }> => {
+  const stored: unknown = await repository.get('schemaVersion');
+  if (isSchemaVersion(stored)) return { version: stored, invalid: null };
+  const invalid = stored;
+  if (await repository.get('migratedFromLocalStorage')) return { version: 2, invalid };
+  // The newest legacy scheme with anything saved; a fresh install starts on the current one.
+  for (let version = CURRENT_SCHEMA_VERSION - 1; version >= 0; version--) {
+    if (Object.values(STORAGE_KEYS[version]).some(key => storage.getItem(key) !== null)) return { version, invalid };
+  }
+  return { version: CURRENT_SCHEMA_VERSION, invalid };
+};
+
+const readSnapshot = async (version: number, repository: Repository, storage: Storage) => {
+  const snapshot = {} as Snapshot;
+  const raw: Record<string, unknown> = {};
+  const unreadable: string[] = [];
+
+  if (version >= 2) {
+    [snapshot.profile, snapshot.fastingState, snapshot.logs, snapshot.fastingLogs] = await Promise.all([
+      repository.get('profile'), repository.get('fastingState'), repository.logs.getAll(), repository.fastingLogs.getAll()
+    ]);
+    ['profile', 'fastingState', 'logs', 'fastingLogs'].forEach(field => { raw[field] = snapshot[field as keyof Snapshot]; });
+  }
+  Object.entries(STORAGE_KEYS[Math.min(version, CURRENT_SCHEMA_VERSION)]).forEach(([field, key]) => {
+    const text = storage.getItem(key);
+    if (text === null) return;
+    try {
+      snapshot[field as keyof Snapshot] = raw[key] = JSON.parse(text);
+    } catch {
+      raw[key] = text;
+      unreadable.push(key);
+    }
+  });
+  return { snapshot, raw, unreadable };
+};
+
+const sortStoredData = (data: StoredData): StoredData => ({
+  ...data,
+  logs: [...data.logs].sort((a, b) => b.timestamp - a.timestamp),
+  fastingLogs: [...data.fastingLogs].sort((a, b) => b.startTime - a.startTime),
+  limitHistory: [...data.limitHistory].sort((a, b) => a.effectiveFrom - b.effectiveFrom)
+});
+
+// Drops whatever doesn't match the current types, describing each problem.
+const validateSnapshot = (snapshot: Snapshot): { data: StoredData; details: string[] } => {
+  const details: string[] = [];
+  const profile = isProfile(snapshot.profile) ? snapshot.profile : null;
+  const fastingState = isFastingState(snapshot.fastingState) ? snapshot.fastingState : null;
+  if (snapshot.profile != null && !profile) details.push('Profile');
+  if (snapshot.fastingState != null && !fastingState) details.push('Fasting timer');
+
+  const collections = mapCollections(c => {
+    const items = snapshot[c] ?? [];
+    if (!Array.isArray(items)) {
+      details.push(`${COLLECTION_LABELS[c]}: not a list`);
+      return [];
+    }
+    const valid = filterRecords(c, items);
+    if (valid.length < items.length) details.push(`${COLLECTION_LABELS[c]}: ${items.length - valid.length} unreadable`);
+    return valid;
+  });
+  return { data: sortStoredData({ ...collections, profile, fastingState }), details };
+};
+
+const writeStoredData = async (repository: Repository, data: StoredData, storage: Storage): Promise<void> => {
+  await repository.clear();
+  await repository.logs.put(data.logs);
+  await repository.fastingLogs.put(data.fastingLogs);
+  if (data.profile) await repository.set('profile', data.profile);
+  if (data.fastingState) await repository.set('fastingState', data.fastingState);
+  (Object.keys(LOCAL_STORAGE_KEYS) as (keyof typeof LOCAL_STORAGE_KEYS)[]).forEach(field => {
+    storage.setItem(LOCAL_STORAGE_KEYS[field], JSON.stringify(data[field]));
+  });
+};
+
+// Reads whatever schema is on the device, upgrades it through each migration in turn and
+// validates the result. Data from a newer app, or that doesn't parse or validate, is left
+// untouched and reported, unless `dropInvalid` keeps the readable part. Legacy keys are only
+// removed once the upgraded data has been written, so an interrupted upgrade reruns next load.
+export const loadStoredData = async (repository: Repository, dropInvalid: boolean = false, storage: Storage = localStorage): Promise<LoadResult> => {
+  const { version, invalid } = await detectVersion(repository, storage);
+  const { snapshot, raw, unreadable } = await readSnapshot(version, repository, storage);
+  if (invalid !== null) raw.schemaVersion = invalid;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    return { data: null, error: { problem: 'newer', details: [`Saved by schema version ${version}, this app reads up to ${CURRENT_SCHEMA_VERSION}`], raw } };
+  }
+
+  const migrated = MIGRATIONS.filter(m => m.version > version).reduce((data, m) => m.up(data), snapshot);
+  const { data, details } = validateSnapshot(migrated);
+  const problems = [
+    ...(invalid !== null ? [`Schema version ${JSON.stringify(invalid)} not recognised`] : []),
+    ...unreadable.map(key => `${key}: not valid JSON`),
+    ...details
+  ];
+  if (problems.length > 0 && !dropInvalid) return { data: null, error: { problem: 'damaged', details: problems, raw } };
+
+  if (version < CURRENT_SCHEMA_VERSION || problems.length > 0) await writeStoredData(repository, data, storage);
+  await repository.set('schemaVersion', CURRENT_SCHEMA_VERSION);
+  // The in-memory fallback is gone after a reload, so it keeps the legacy keys to migrate again.
+  if (repository.persistent && version < CURRENT_SCHEMA_VERSION) {
+    const current = Object.values(STORAGE_KEYS[CURRENT_SCHEMA_VERSION]);
+    [...Object.values(STORAGE_KEYS[version]), ...(version === 0 ? OBSOLETE_KEYS : [])]
+      .filter(key => !current.includes(key))
+      .forEach(key => storage.removeItem(key));
+  }
+  return { data, error: null };
+};
+
+// Wipes every schema's data, for starting over when stored data can't be recovered.
+export const clearStoredData = async (repository: Repository, storage: Storage = localStorage): Promise<void> => {
+  await repository.clear();
+  Object.values(STORAGE_KEYS).flatMap(keys => Object.values(keys)).concat(OBSOLETE_KEYS).forEach(key => storage.removeItem(key));
+};
@@ -0,0 +1,27 @@
+export const isNotificationSupported = (): boolean => typeof window !== 'undefined' && 'Notification' in window;
+
+export const canNotify = (): boolean => isNotificationSupported() && Notification.permission === 'granted';
+
+// Must be called from a user action such as a tap, or browsers ignore the request.
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!isNotificationSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// Shown through the service worker where there is one, which mobile browsers require.
+// Notifications with the same tag replace each other rather than stacking. Callers don't wait
+// on this, so one that can't be shown (permission revoked since, worker not ready) is dropped.
+export const showNotification = async (title: string, body: string, tag: string): Promise<void> => {
+  if (!canNotify()) return;
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, { body, tag });
+    } else {
+      new Notification(title, { body, tag });
+    }
+  } catch {
+    // Nothing to recover; the next reminder tries again.
+  }
+};
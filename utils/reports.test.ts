@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LogEntry } from '../types';
+import { setTimeZone, setDayStartHour, toDateInputValue } from './dates';
+import { KCAL_PER_KG } from './goal';
+import { getLimitForDay, getPeriodStart, getNextPeriodStart, buildCalorieReport } from './reports';
+
+const utc = (value: string) => Date.parse(`${value}Z`);
+
+const food = (date: string, calories: number): LogEntry =>
+  ({ id: `food-${date}-${calories}`, type: 'food', name: 'Meal', calories, timestamp: utc(`${date}T12:00`) });
+
+const activity = (date: string, calories: number): LogEntry =>
+  ({ id: `activity-${date}-${calories}`, type: 'activity', name: 'Walk', calories, timestamp: utc(`${date}T18:00`) });
+
+// Sunday 18 October 2026.
+const NOW = utc('2026-10-18T15:00');
+
+beforeEach(() => {
+  setTimeZone('UTC');
+  setDayStartHour(0);
+});
+
+describe('report periods', () => {
+  it('starts weeks on Monday', () => {
+    const start = getPeriodStart('week', NOW);
+    expect(start).toBe(utc('2026-10-12T00:00'));
+    expect(getNextPeriodStart('week', start)).toBe(utc('2026-10-19T00:00'));
+    expect(getPeriodStart('week', utc('2026-10-12T00:00'))).toBe(start);
+  });
+
+  it('spans whole calendar months', () => {
+    const start = getPeriodStart('month', NOW);
+    expect(start).toBe(utc('2026-10-01T00:00'));
+    expect(getNextPeriodStart('month', start)).toBe(utc('2026-11-01T00:00'));
+    expect(getNextPeriodStart('month', utc('2026-02-01T00:00'))).toBe(utc('2026-03-01T00:00'));
+    expect(getNextPeriodStart('month', utc('2026-12-01T00:00'))).toBe(utc('2027-01-01T00:00'));
+  });
+
+  it('follows the day-start hour', () => {
+    setDayStartHour(4);
+    expect(getPeriodStart('week', utc('2026-10-12T03:00'))).toBe(utc('2026-10-05T04:00'));
+    expect(getPeriodStart('month', utc('2026-11-01T03:00'))).toBe(utc('2026-10-01T04:00'));
+  });
+
+  it('lists days up to today only', () => {
+    const week = buildCalorieReport([], [], [], 1800, null, 'week', getPeriodStart('week', NOW), NOW);
+    expect(week.days.map(d => toDateInputValue(d.day))).toEqual(['2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15', '2026-10-16', '2026-10-17', '2026-10-18']);
+    const month = buildCalorieReport([], [], [], 1800, null, 'month', getPeriodStart('month', NOW), NOW);
+    expect(month.days).toHaveLength(18);
+    expect(month.to).toBe(utc('2026-11-01T00:00'));
+  });
+});
+
+describe('buildCalorieReport', () => {
+  const build = (logs: LogEntry[], unloggedDays: string[] = [], maintenance: number | null = 2300) =>
+    buildCalorieReport(logs, unloggedDays, [], 1800, maintenance, 'week', getPeriodStart('week', NOW), NOW);
+
+  it('averages food eaten per logged day and nets activity for the goal', () => {
+    const report = build([food('2026-10-12', 2000), food('2026-10-13', 1600), activity('2026-10-13', 400)]);
+    expect(report.loggedDays).toBe(2);
+    expect(report.averageIntake).toBe(1800);
+    expect(report.days[1].net).toBe(1200);
+    expect(report.underGoal).toBe(1);
+    expect(report.overGoal).toBe(1);
+  });
+
+  it('leaves unlogged and empty days out of the stats', () => {
+    const report = build([food('2026-10-12', 2000), food('2026-10-13', 900), activity('2026-10-14', 300)], ['2026-10-13']);
+    expect(report.days[1].logged).toBe(false);
+    expect(report.days[2].logged).toBe(false);
+    expect(report.loggedDays).toBe(1);
+    expect(report.averageIntake).toBe(2000);
+    expect(report.totalDeficit).toBe(300);
+  });
+
+  it('leaves the day in progress out of the stats', () => {
+    const report = build([food('2026-10-17', 1500), food('2026-10-18', 3000)]);
+    expect(report.days[6]).toMatchObject({ consumed: 3000, logged: true });
+    expect(report.loggedDays).toBe(1);
+    expect(report.averageIntake).toBe(1500);
+    expect(report.overGoal).toBe(0);
+  });
+
+  it('takes past limits from the limit history and today from the current limit', () => {
+    const history = [{ effectiveFrom: utc('2026-10-01T09:00'), limit: 2000 }, { effectiveFrom: utc('2026-10-14T20:00'), limit: 1700 }];
+    const report = buildCalorieReport([food('2026-10-13', 1900), food('2026-10-14', 1900)], [], history, 1600, null, 'week', getPeriodStart('week', NOW), NOW);
+    expect(report.days.map(d => d.limit)).toEqual([2000, 2000, 1700, 1700, 1700, 1700, 1600]);
+    expect(report.underGoal).toBe(1);
+    expect(report.overGoal).toBe(1);
+    expect(getLimitForDay(history, utc('2026-09-01T00:00'), 1600)).toBe(2000);
+    expect(getLimitForDay([], utc('2026-09-01T00:00'), 1600)).toBe(1600);
+  });
+
+  it('converts the deficit below maintenance into a weight change', () => {
+    const report = build([food('2026-10-12', 1500), food('2026-10-13', 2000), activity('2026-10-13', 200)]);
+    expect(report.totalDeficit).toBe(1300);
+    expect(report.estimatedChangeKg).toBeCloseTo(-1300 / KCAL_PER_KG);
+    expect(build([food('2026-10-12', 2800)]).estimatedChangeKg).toBeCloseTo(500 / KCAL_PER_KG);
+  });
+
+  it('has no estimates without logged days or a maintenance figure', () => {
+    expect(build([])).toMatchObject({ loggedDays: 0, averageIntake: null, totalDeficit: null, estimatedChangeKg: null });
+    expect(build([food('2026-10-12', 1500)], [], null)).toMatchObject({ loggedDays: 1, totalDeficit: null, estimatedChangeKg: null });
+  });
+});
@@ -0,0 +1,92 @@
+import { LogEntry, DailyLimitChange } from '../types';
+import { startOfDay, addDays, startOfWeek, startOfMonth, toDateInputValue } from './dates';
+import { KCAL_PER_KG } from './goal';
+
+export type ReportPeriod = 'week' | 'month';
+
+export interface DailyTotal {
+  day: number;
+  consumed: number;
+  burned: number;
+  net: number;
+  limit: number;
+  logged: boolean; // food logged and not marked unlogged
+}
+
+export interface CalorieReport {
+  from: number;
+  to: number; // start of the next period
+  days: DailyTotal[]; // up to and including today
+  loggedDays: number;
+  averageIntake: number | null; // food kcal per logged day, before activity
+  underGoal: number;
+  overGoal: number;
+  totalDeficit: number | null; // kcal below maintenance, negative for a surplus
+  estimatedChangeKg: number | null;
+}
+
+// The limit in effect on a day is the last change made before that day ended.
+// Days older than the first recorded change fall back to the earliest known limit.
+export const getLimitForDay = (history: DailyLimitChange[], dayStart: number, fallback: number): number => {
+  if (history.length === 0) return fallback;
+  const dayEnd = addDays(dayStart, 1);
+  let limit = history[0].limit;
+  for (const change of history) {
+    if (change.effectiveFrom >= dayEnd) break;
+    limit = change.limit;
+  }
+  return limit;
+};
+
+export const getPeriodStart = (period: ReportPeriod, ts: number): number =>
+  period === 'week' ? startOfWeek(ts) : startOfMonth(ts);
+
+export const getNextPeriodStart = (period: ReportPeriod, periodStart: number): number =>
+  period === 'week' ? addDays(periodStart, 7) : startOfMonth(addDays(periodStart, 31));
+
+// Stats only count finished days that were logged: today is still in progress, and an empty or
+// unlogged day says nothing about intake. Today uses the current limit, like the day view.
+export const buildCalorieReport = (logs: LogEntry[], unloggedDays: string[], limitHistory: DailyLimitChange[], currentLimit: number, maintenance: number | null, period: ReportPeriod, periodStart: number, now: number = Date.now()): CalorieReport => {
+  const today = startOfDay(now);
+  const to = getNextPeriodStart(period, periodStart);
+  const excluded = new Set(unloggedDays);
+
+  const totals = new Map<number, { consumed: number; burned: number }>();
+  logs.forEach(log => {
+    if (log.timestamp < periodStart || log.timestamp >= to) return;
+    const day = startOfDay(log.timestamp);
+    const total = totals.get(day) || { consumed: 0, burned: 0 };
+    if (log.type === 'food') total.consumed += log.calories;
+    else total.burned += log.calories;
+    totals.set(day, total);
+  });
+
+  const days: DailyTotal[] = [];
+  for (let day = periodStart; day < to && day <= today; day = addDays(day, 1)) {
+    const { consumed, burned } = totals.get(day) || { consumed: 0, burned: 0 };
+    days.push({
+      day,
+      consumed,
+      burned,
+      net: consumed - burned,
+      limit: day === today ? currentLimit : getLimitForDay(limitHistory, day, currentLimit),
+      logged: consumed > 0 && !excluded.has(toDateInputValue(day))
+    });
+  }
+
+  const counted = days.filter(d => d.logged && d.day < today);
+  const totalConsumed = counted.reduce((sum, d) => sum + d.consumed, 0);
+  const totalNet = counted.reduce((sum, d) => sum + d.net, 0);
+  const totalDeficit = maintenance !== null && counted.length > 0 ? Math.round(maintenance * counted.length - totalNet) : null;
+  return {
+    from: periodStart,
+    to,
+    days,
+    loggedDays: counted.length,
+    averageIntake: counted.length > 0 ? Math.round(totalConsumed / counted.length) : null,
+    underGoal: counted.filter(d => d.net <= d.limit).length,
+    overGoal: counted.filter(d => d.net > d.limit).length,
+    totalDeficit,
+    estimatedChangeKg: totalDeficit !== null ? -totalDeficit / KCAL_PER_KG : null
+  };
+};
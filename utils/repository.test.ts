@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { LogEntry } from '../types';
+import { Repository, createMemoryRepository, createStorageRepository } from './repository';
+import { createFakeStorage } from './fakeStorage';
+
+const log = (id: string, timestamp: number): LogEntry => ({ id, type: 'food', name: 'Meal', calories: 100, timestamp });
+
+describe.each([
+  ['memory', () => createMemoryRepository()],
+  ['localStorage', () => createStorageRepository(createFakeStorage())]
+])('%s repository', (_, create: () => Repository) => {
+  it('keeps collections sorted by time and replaces records by id', async () => {
+    const repository = create();
+    await repository.logs.put([log('b', 2000), log('a', 1000)]);
+    await repository.logs.put([{ ...log('b', 2000), calories: 250 }, log('c', 3000)]);
+    await repository.logs.delete(['c']);
+    expect(await repository.logs.getAll()).toEqual([log('a', 1000), { ...log('b', 2000), calories: 250 }]);
+    expect(await repository.logs.getAll({ from: 1000, to: 2000 })).toEqual([log('a', 1000)]);
+  });
+
+  it('stores values and clears everything', async () => {
+    const repository = create();
+    expect(await repository.get('schemaVersion')).toBeNull();
+    await repository.set('schemaVersion', 2);
+    await repository.logs.put([log('a', 1000)]);
+    expect(await repository.get('schemaVersion')).toBe(2);
+    await repository.clear();
+    expect(await repository.get('schemaVersion')).toBeNull();
+    expect(await repository.logs.getAll()).toEqual([]);
+  });
+});
+
+describe('createStorageRepository', () => {
+  it('keeps what was saved across instances', async () => {
+    const storage = createFakeStorage();
+    const first = createStorageRepository(storage);
+    await first.logs.put([log('a', 1000)]);
+    await first.set('schemaVersion', 2);
+    const second = createStorageRepository(storage);
+    expect(second.persistent).toBe(true);
+    expect(await second.logs.getAll()).toEqual([log('a', 1000)]);
+    expect(await second.get('schemaVersion')).toBe(2);
+  });
+
+  it('throws when storage is unavailable', () => {
+    const storage = createFakeStorage();
+    storage.setItem = () => { throw new Error('QuotaExceededError'); };
+    expect(() => createStorageRepository(storage)).toThrow();
+  });
+});
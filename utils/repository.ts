@@ -0,0 +1,206 @@
+import { UserProfile, LogEntry, FastingLog, FastingState } from '../types';
+
+// `to` is exclusive.
+export interface TimeRange {
+  from: number;
+  to: number;
+}
+
+export interface Collection<T> {
+  getAll(range?: TimeRange): Promise<T[]>; // sorted by the indexed time, oldest first
+  put(items: T[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+}
+
+export interface StoredValues {
+  profile: UserProfile;
+  fastingState: FastingState;
+  schemaVersion: number;
+  migratedFromLocalStorage: boolean; // set by builds from before schema versions
+}
+
+export interface Repository {
+  persistent: boolean; // false for the in-memory repository, which is gone after a reload
+  logs: Collection<LogEntry>;
+  fastingLogs: Collection<FastingLog>;
+  get<K extends keyof StoredValues>(key: K): Promise<StoredValues[K] | null>;
+  set<K extends keyof StoredValues>(key: K, value: StoredValues[K]): Promise<void>;
+  clear(): Promise<void>; // empties every store
+}
+
+const DB_NAME = 'selflove';
+const DB_VERSION = 1;
+
+const STORES = {
+  logs: { name: 'logs', index: 'timestamp' },
+  fastingLogs: { name: 'fastingLogs', index: 'startTime' },
+  values: { name: 'values' }
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Writes only count once the transaction commits; a quota error surfaces as an abort.
+const complete = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore(STORES.logs.name, { keyPath: 'id' }).createIndex(STORES.logs.index, STORES.logs.index);
+    db.createObjectStore(STORES.fastingLogs.name, { keyPath: 'id' }).createIndex(STORES.fastingLogs.index, STORES.fastingLogs.index);
+    db.createObjectStore(STORES.values.name);
+  };
+  return promisify(request);
+};
+
+const createIndexedDbCollection = <T>(db: IDBDatabase, store: { name: string; index: string }): Collection<T> => ({
+  getAll: range => {
+    const index = db.transaction(store.name).objectStore(store.name).index(store.index);
+    return promisify(index.getAll(range ? IDBKeyRange.bound(range.from, range.to, false, true) : undefined));
+  },
+  put: items => {
+    const tx = db.transaction(store.name, 'readwrite');
+    items.forEach(item => tx.objectStore(store.name).put(item));
+    return complete(tx);
+  },
+  delete: ids => {
+    const tx = db.transaction(store.name, 'readwrite');
+    ids.forEach(id => tx.objectStore(store.name).delete(id));
+    return complete(tx);
+  }
+});
+
+export const createIndexedDbRepository = async (): Promise<Repository> => {
+  const db = await openDatabase();
+  const storeNames = Object.values(STORES).map(store => store.name);
+  return {
+    persistent: true,
+    logs: createIndexedDbCollection<LogEntry>(db, STORES.logs),
+    fastingLogs: createIndexedDbCollection<FastingLog>(db, STORES.fastingLogs),
+    get: async key => (await promisify(db.transaction(STORES.values.name).objectStore(STORES.values.name).get(key))) ?? null,
+    set: (key, value) => {
+      const tx = db.transaction(STORES.values.name, 'readwrite');
+      tx.objectStore(STORES.values.name).put(value, key);
+      return complete(tx);
+    },
+    clear: () => {
+      const tx = db.transaction(storeNames, 'readwrite');
+      storeNames.forEach(name => tx.objectStore(name).clear());
+      return complete(tx);
+    }
+  };
+};
+
+type ValueSlots = { [K in keyof StoredValues]: StoredValues[K] | null };
+
+const EMPTY_VALUES: ValueSlots = { profile: null, fastingState: null, schemaVersion: null, migratedFromLocalStorage: null };
+
+const createMemoryCollection = <T extends { id: string }>(getTime: (item: T) => number): Collection<T> & { clear(): void } => {
+  const items = new Map<string, T>();
+  return {
+    clear: () => items.clear(),
+    getAll: async range => [...items.values()]
+      .filter(item => !range || (getTime(item) >= range.from && getTime(item) < range.to))
+      .sort((a, b) => getTime(a) - getTime(b)),
+    put: async list => { list.forEach(item => items.set(item.id, item)); },
+    delete: async ids => { ids.forEach(id => items.delete(id)); }
+  };
+};
+
+// Same behaviour as the IndexedDB repository without a browser, for tests and as a last resort.
+export const createMemoryRepository = (): Repository => {
+  let values: ValueSlots = { ...EMPTY_VALUES };
+  const logs = createMemoryCollection<LogEntry>(log => log.timestamp);
+  const fastingLogs = createMemoryCollection<FastingLog>(log => log.startTime);
+  return {
+    persistent: false,
+    logs,
+    fastingLogs,
+    get: async key => values[key],
+    set: async (key, value) => { values[key] = value; },
+    clear: async () => {
+      logs.clear();
+      fastingLogs.clear();
+      values = { ...EMPTY_VALUES };
+    }
+  };
+};
+
+// Not the schema's localStorage keys, which `loadStoredData` would take for legacy data.
+const STORAGE_REPOSITORY_KEYS = {
+  logs: 'selflove_repository_logs',
+  fastingLogs: 'selflove_repository_fasting_logs',
+  values: 'selflove_repository_values'
+};
+
+const readJson = <T>(storage: Storage, key: string, fallback: T): T => {
+  const text = storage.getItem(key);
+  return text === null ? fallback : JSON.parse(text);
+};
+
+const createStorageCollection = <T extends { id: string }>(storage: Storage, key: string, getTime: (item: T) => number): Collection<T> => {
+  const read = () => readJson<T[]>(storage, key, []);
+  const write = (items: T[]) => storage.setItem(key, JSON.stringify(items));
+  return {
+    getAll: async range => read()
+      .filter(item => !range || (getTime(item) >= range.from && getTime(item) < range.to))
+      .sort((a, b) => getTime(a) - getTime(b)),
+    put: async list => {
+      const ids = new Set(list.map(item => item.id));
+      write([...read().filter(item => !ids.has(item.id)), ...list]);
+    },
+    delete: async ids => {
+      const removed = new Set(ids);
+      write(read().filter(item => !removed.has(item.id)));
+    }
+  };
+};
+
+// For browsers that block IndexedDB but not localStorage, as some private browsing modes do.
+// Throws when localStorage can't be written either.
+export const createStorageRepository = (storage: Storage = localStorage): Repository => {
+  storage.setItem(STORAGE_REPOSITORY_KEYS.values, storage.getItem(STORAGE_REPOSITORY_KEYS.values) ?? '{}');
+  const readValues = (): ValueSlots => ({ ...EMPTY_VALUES, ...readJson(storage, STORAGE_REPOSITORY_KEYS.values, {}) });
+  return {
+    persistent: true,
+    logs: createStorageCollection<LogEntry>(storage, STORAGE_REPOSITORY_KEYS.logs, log => log.timestamp),
+    fastingLogs: createStorageCollection<FastingLog>(storage, STORAGE_REPOSITORY_KEYS.fastingLogs, log => log.startTime),
+    get: async key => readValues()[key],
+    set: async (key, value) => {
+      storage.setItem(STORAGE_REPOSITORY_KEYS.values, JSON.stringify({ ...readValues(), [key]: value }));
+    },
+    clear: async () => Object.values(STORAGE_REPOSITORY_KEYS).forEach(key => storage.removeItem(key))
+  };
+};
+
+// IndexedDB where it opens, else localStorage; only with neither do changes last for the session
+// alone, which the app warns about. Loading and migrating what's stored is up to `loadStoredData`
+// in migrations.ts.
+export const openRepository = async (): Promise<Repository> => {
+  try {
+    return await createIndexedDbRepository();
+  } catch {
+    try {
+      return createStorageRepository();
+    } catch {
+      return createMemoryRepository();
+    }
+  }
+};
+
+// What changed between two versions of a collection, so only those records are written.
+export const diffById = <T extends { id: string }>(previous: T[], next: T[]): { changed: T[]; removed: string[] } => {
+  const before = new Map(previous.map(item => [item.id, item]));
+  const after = new Set(next.map(item => item.id));
+  return {
+    changed: next.filter(item => before.get(item.id) !== item),
+    removed: previous.filter(item => !after.has(item.id)).map(item => item.id)
+  };
+};
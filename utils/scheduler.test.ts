@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createScheduler, MAX_DELAY, Timers } from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('createScheduler', () => {
+  let timers: Timers;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 0, 1));
+    timers = {
+      now: () => Date.now(),
+      setTimeout: vi.fn((run: () => void, ms: number) => setTimeout(run, ms)),
+      clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs a task at its time', () => {
+    const run = vi.fn();
+    createScheduler(timers).schedule('a', Date.now() + 1000, run);
+    vi.advanceTimersByTime(999);
+    expect(run).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-arms delays beyond MAX_DELAY in steps', () => {
+    const run = vi.fn();
+    const at = Date.now() + 30 * DAY_MS;
+    createScheduler(timers).schedule('far', at, run);
+    expect(timers.setTimeout).toHaveBeenLastCalledWith(expect.any(Function), MAX_DELAY);
+
+    vi.advanceTimersByTime(MAX_DELAY);
+    expect(run).not.toHaveBeenCalled();
+    expect(timers.setTimeout).toHaveBeenCalledTimes(2);
+    expect(timers.setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 30 * DAY_MS - MAX_DELAY);
+
+    vi.advanceTimersByTime(at - Date.now());
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels only tasks matching the prefix', () => {
+    const fast = vi.fn();
+    const plan = vi.fn();
+    const scheduler = createScheduler(timers);
+    scheduler.schedule('fast:stage', Date.now() + 1000, fast);
+    scheduler.schedule('fast:goal', Date.now() + 2000, fast);
+    scheduler.schedule('plan:opens', Date.now() + 1000, plan);
+
+    scheduler.cancelAll('fast:');
+    vi.advanceTimersByTime(5000);
+    expect(fast).not.toHaveBeenCalled();
+    expect(plan).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces a task scheduled again under the same id', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const scheduler = createScheduler(timers);
+    scheduler.schedule('a', Date.now() + 1000, first);
+    scheduler.schedule('a', Date.now() + 2000, second);
+    vi.advanceTimersByTime(5000);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('fires tasks that are already past due immediately', () => {
+    const run = vi.fn();
+    createScheduler(timers).schedule('late', Date.now() - 60 * 1000, run);
+    expect(timers.setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 0);
+    vi.advanceTimersByTime(0);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,50 @@
+// The clock and timers a scheduler runs on, swappable for fake timers in tests.
+export interface Timers {
+  now(): number;
+  setTimeout(run: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface Scheduler {
+  schedule(id: string, at: number, run: () => void): void; // replaces any task with the same id
+  cancel(id: string): void;
+  cancelAll(prefix?: string): void;
+}
+
+// Browsers fire longer timeouts immediately, so longer waits are made in steps.
+export const MAX_DELAY = 2 ** 31 - 1;
+
+export const browserTimers: Timers = {
+  now: () => Date.now(),
+  setTimeout: (run, ms) => setTimeout(run, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// Runs each task once at (or, after sleep or throttling, as soon as possible after) its time.
+export const createScheduler = (timers: Timers = browserTimers): Scheduler => {
+  const tasks = new Map<string, unknown>();
+
+  const arm = (id: string, at: number, run: () => void) => {
+    const delay = Math.min(Math.max(at - timers.now(), 0), MAX_DELAY);
+    tasks.set(id, timers.setTimeout(() => {
+      if (at > timers.now()) return arm(id, at, run);
+      tasks.delete(id);
+      run();
+    }, delay));
+  };
+
+  const cancel = (id: string) => {
+    if (!tasks.has(id)) return;
+    timers.clearTimeout(tasks.get(id));
+    tasks.delete(id);
+  };
+
+  return {
+    schedule: (id, at, run) => {
+      cancel(id);
+      arm(id, at, run);
+    },
+    cancel,
+    cancelAll: (prefix = '') => [...tasks.keys()].filter(id => id.startsWith(prefix)).forEach(cancel)
+  };
+};
@@ -0,0 +1,30 @@
+/// <reference types="vite/client" />
+
+// Registers sw.js in production builds and reports when a newly deployed build is waiting.
+// `onUpdate` receives a function that activates it and reloads the page.
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void): void => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  // Hosting previews can serve the page from another origin, where registration fails.
+  if (process.env.APP_ORIGIN && window.location.origin !== process.env.APP_ORIGIN) return;
+
+  const notify = (worker: ServiceWorker) => onUpdate(() => {
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  });
+
+  // Under the build's base path, so the worker's scope covers the app wherever it's hosted.
+  navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).then(registration => {
+    // A worker can only be an update if one already controls the page.
+    if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) notify(worker);
+      });
+    });
+    // An installed app can stay open for days, so check again whenever it comes back into view.
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') registration.update().catch(() => {});
+    });
+  }).catch(() => {}); // the app works the same without offline support
+};
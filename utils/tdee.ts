@@ -0,0 +1,70 @@
+import { LogEntry, WeightEntry } from '../types';
+import { startOfDay, addDays } from './dates';
+import { calculateWeightTrend } from './weight';
+import { KCAL_PER_KG, getAverageDailyIntake } from './goal';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ADAPTIVE_WINDOW_DAYS = 28;
+export const MIN_LOGGED_DAYS = 10;
+export const MIN_WEIGH_INS = 3;
+export const MIN_WEIGHT_SPAN_DAYS = 14;
+
+export type TdeeConfidence = 'low' | 'medium' | 'high';
+
+export interface AdaptiveTdee {
+  tdee: number;
+  confidence: TdeeConfidence;
+  loggedDays: number;
+  weighIns: number;
+}
+
+export interface AdaptiveTdeeProgress {
+  loggedDays: number;
+  weighIns: number;
+  spanDays: number;
+}
+
+const getWindowTrend = (weights: WeightEntry[], windowDays: number, now: number) => {
+  const from = addDays(now, -windowDays);
+  const to = startOfDay(now);
+  return calculateWeightTrend(weights).filter(p => p.timestamp >= from && p.timestamp < to);
+};
+
+// How much of the minimum data requirement has been collected so far.
+export const getAdaptiveTdeeProgress = (logs: LogEntry[], weights: WeightEntry[], windowDays: number = ADAPTIVE_WINDOW_DAYS, now: number = Date.now()): AdaptiveTdeeProgress => {
+  const trend = getWindowTrend(weights, windowDays, now);
+  return {
+    loggedDays: getAverageDailyIntake(logs, windowDays, now)?.days || 0,
+    weighIns: trend.length,
+    spanDays: trend.length > 1 ? Math.round((trend[trend.length - 1].timestamp - trend[0].timestamp) / DAY_MS) : 0
+  };
+};
+
+const getConfidence = (loggedDays: number, weighIns: number, windowDays: number): TdeeConfidence => {
+  const coverage = Math.min(loggedDays / windowDays, weighIns / (windowDays / 3));
+  if (coverage >= 0.8) return 'high';
+  if (coverage >= 0.5) return 'medium';
+  return 'low';
+};
+
+// Energy balance: whatever was eaten but didn't show up as trend weight change was burned.
+// Uses the smoothed trend rather than raw readings so water swings don't dominate.
+export const estimateAdaptiveTdee = (logs: LogEntry[], weights: WeightEntry[], windowDays: number = ADAPTIVE_WINDOW_DAYS, now: number = Date.now()): AdaptiveTdee | null => {
+  const intake = getAverageDailyIntake(logs, windowDays, now);
+  const trend = getWindowTrend(weights, windowDays, now);
+  if (!intake || intake.days < MIN_LOGGED_DAYS || trend.length < MIN_WEIGH_INS) return null;
+
+  const first = trend[0];
+  const last = trend[trend.length - 1];
+  const spanDays = (last.timestamp - first.timestamp) / DAY_MS;
+  if (spanDays < MIN_WEIGHT_SPAN_DAYS) return null;
+
+  const kgPerDay = (last.trend - first.trend) / spanDays;
+  return {
+    tdee: Math.round(intake.average - kgPerDay * KCAL_PER_KG),
+    confidence: getConfidence(intake.days, trend.length, windowDays),
+    loggedDays: intake.days,
+    weighIns: trend.length
+  };
+};
@@ -0,0 +1,72 @@
+import { UserProfile, LogEntry, FastingLog, FastingState, DailyLimitChange, FoodItem, SavedMeal, WeightEntry } from '../types';
+
+// Shape checks for data read back from storage or files, where anything could turn up.
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isOptional = (v: unknown, check: (v: unknown) => boolean) => v === undefined || v === null || check(v);
+
+const isMealComponent = (v: unknown): boolean =>
+  isObject(v) && isString(v.name) && isNumber(v.calories) && isNumber(v.quantity);
+
+export const isLogEntry = (v: unknown): v is LogEntry =>
+  isObject(v) && isString(v.id) && (v.type === 'food' || v.type === 'activity') && isString(v.name) && isNumber(v.calories) && isNumber(v.timestamp)
+  && isOptional(v.breakdown, b => Array.isArray(b) && b.every(isMealComponent));
+
+const isBreakFastMeal = (v: unknown): boolean =>
+  isObject(v) && isString(v.logId) && isString(v.name) && isNumber(v.calories) && isNumber(v.timestamp);
+
+export const isFastingLog = (v: unknown): v is FastingLog =>
+  isObject(v) && isString(v.id) && isNumber(v.startTime) && isNumber(v.endTime) && isNumber(v.duration) && v.endTime >= v.startTime
+  && isOptional(v.breakFastMeal, isBreakFastMeal);
+
+export const isWeightEntry = (v: unknown): v is WeightEntry =>
+  isObject(v) && isString(v.id) && isNumber(v.timestamp) && isNumber(v.weight) && v.weight > 0;
+
+export const isFoodItem = (v: unknown): v is FoodItem =>
+  isObject(v) && isString(v.id) && isString(v.name) && isNumber(v.calories) && typeof v.isFavorite === 'boolean' && isNumber(v.useCount) && isNumber(v.lastUsed);
+
+export const isSavedMeal = (v: unknown): v is SavedMeal =>
+  isObject(v) && isString(v.id) && (v.kind === 'meal' || v.kind === 'recipe') && isString(v.name) && isNumber(v.servings) && Array.isArray(v.items) && v.items.every(isMealComponent);
+
+// A logical day as "YYYY-MM-DD".
+export const isDateValue = (v: unknown): v is string => isString(v) && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+export const isLimitChange = (v: unknown): v is DailyLimitChange =>
+  isObject(v) && isNumber(v.effectiveFrom) && isNumber(v.limit);
+
+// The record type of each collection stored as a list.
+export interface CollectionRecords {
+  logs: LogEntry;
+  fastingLogs: FastingLog;
+  weights: WeightEntry;
+  foodLibrary: FoodItem;
+  savedMeals: SavedMeal;
+  limitHistory: DailyLimitChange;
+  unloggedDays: string; // logical days marked as not logged, "YYYY-MM-DD"
+}
+
+export type RecordCollection = keyof CollectionRecords;
+
+// Per collection, shared by backups and stored-data migrations.
+export const RECORD_VALIDATORS: { [K in RecordCollection]: (v: unknown) => v is CollectionRecords[K] } = {
+  logs: isLogEntry,
+  fastingLogs: isFastingLog,
+  weights: isWeightEntry,
+  foodLibrary: isFoodItem,
+  savedMeals: isSavedMeal,
+  limitHistory: isLimitChange,
+  unloggedDays: isDateValue
+};
+
+// The valid records of a collection read from outside; anything but a list has none.
+export const filterRecords = <K extends RecordCollection>(collection: K, items: unknown): CollectionRecords[K][] =>
+  Array.isArray(items) ? items.filter((item: unknown): item is CollectionRecords[K] => RECORD_VALIDATORS[collection](item)) : [];
+
+export const isProfile = (v: unknown): v is UserProfile =>
+  isObject(v) && isString(v.name) && isString(v.dob) && isNumber(v.height) && isNumber(v.weight) && (v.gender === 'male' || v.gender === 'female')
+  && isString(v.timezone) && isString(v.activityLevel) && isNumber(v.deficitGoal) && isOptional(v.manualLimit, isNumber);
+
+export const isFastingState = (v: unknown): v is FastingState =>
+  isObject(v) && typeof v.isActive === 'boolean' && isOptional(v.startTime, isNumber);
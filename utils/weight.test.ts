@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WeightEntry } from '../types';
+import { setTimeZone, setDayStartHour } from './dates';
+import { calculateWeightTrend, getTrendInRange } from './weight';
+
+const utc = (value: string) => Date.parse(`${value}Z`);
+
+const weighIn = (at: string, weight: number): WeightEntry => ({ id: at, timestamp: utc(at), weight });
+
+beforeEach(() => {
+  setTimeZone('UTC');
+  setDayStartHour(0);
+});
+
+describe('calculateWeightTrend', () => {
+  it('pulls the trend further after a gap', () => {
+    const daily = calculateWeightTrend([weighIn('2026-10-01T07:00', 80), weighIn('2026-10-02T07:00', 70)]);
+    const weekly = calculateWeightTrend([weighIn('2026-10-08T07:00', 70), weighIn('2026-10-01T07:00', 80)]);
+    expect(daily.map(p => p.trend)).toEqual([80, 79]);
+    expect(weekly[1].trend).toBeCloseTo(80 - 10 * (1 - Math.pow(0.9, 7)));
+  });
+});
+
+describe('getTrendInRange', () => {
+  it('starts the range at the start of a day across a DST change', () => {
+    setTimeZone('America/New_York');
+    const entries = [weighIn('2026-03-08T04:30', 80), weighIn('2026-03-08T12:00', 79), weighIn('2026-03-10T12:00', 78)];
+    // 11:30pm on 7 March, local time, falls outside a range starting on the 8th.
+    expect(getTrendInRange(entries, 3, utc('2026-03-10T17:00')).map(p => p.weight)).toEqual([79, 78]);
+  });
+});
@@ -0,0 +1,42 @@
+import { WeightEntry } from '../types';
+import { startOfDay, addDays } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily smoothing factor: each day moves the trend 10% of the way towards the scale reading.
+export const TREND_SMOOTHING = 0.1;
+
+export interface WeightTrendPoint {
+  timestamp: number;
+  weight: number;
+  trend: number;
+}
+
+export const sortWeights = (entries: WeightEntry[]): WeightEntry[] =>
+  [...entries].sort((a, b) => a.timestamp - b.timestamp);
+
+export const getLatestWeight = (entries: WeightEntry[]): WeightEntry | null =>
+  entries.reduce<WeightEntry | null>((latest, entry) => (!latest || entry.timestamp > latest.timestamp ? entry : latest), null);
+
+// Exponential moving average that accounts for gaps between weigh-ins, so a reading after
+// a week away pulls the trend as far as seven daily readings would have.
+export const calculateWeightTrend = (entries: WeightEntry[], smoothing: number = TREND_SMOOTHING): WeightTrendPoint[] => {
+  const points: WeightTrendPoint[] = [];
+  sortWeights(entries).forEach((entry, i, sorted) => {
+    if (i === 0) {
+      points.push({ timestamp: entry.timestamp, weight: entry.weight, trend: entry.weight });
+      return;
+    }
+    const previous = points[points.length - 1];
+    const gapDays = Math.max(1, Math.round((startOfDay(entry.timestamp) - startOfDay(sorted[i - 1].timestamp)) / DAY_MS));
+    const alpha = 1 - Math.pow(1 - smoothing, gapDays);
+    points.push({ timestamp: entry.timestamp, weight: entry.weight, trend: previous.trend + alpha * (entry.weight - previous.trend) });
+  });
+  return points;
+};
+
+// The trend is computed over the whole history so the first point in a range isn't a cold start.
+export const getTrendInRange = (entries: WeightEntry[], days: number, now: number = Date.now()): WeightTrendPoint[] => {
+  const from = addDays(startOfDay(now), -(days - 1));
+  return calculateWeightTrend(entries).filter(point => point.timestamp >= from);
+};
@@ -1,7 +1,39 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js with the built files to precache and a version derived from them, so each deploy
+// gets a fresh cache and the old one is dropped when the new worker activates. Files in public/
+// (the manifest) are copied as they are rather than bundled, so they're listed separately.
+const serviceWorkerPlugin = (appOrigin: string): Plugin => {
+  let publicDir = '';
+  return {
+    name: 'selflove-service-worker',
+    apply: 'build',
+    enforce: 'post', // after index.html has been added to the bundle
+    configResolved(config) {
+      publicDir = config.publicDir;
+    },
+    generateBundle(_, bundle) {
+      const publicFiles = publicDir && fs.existsSync(publicDir)
+        ? fs.readdirSync(publicDir).filter(file => fs.statSync(path.join(publicDir, file)).isFile())
+        : [];
+      const precache = [...Object.keys(bundle), ...publicFiles].sort();
+      const hash = createHash('sha256');
+      precache.forEach(file => {
+        const output = bundle[file];
+        hash.update(file).update(!output ? fs.readFileSync(path.join(publicDir, file)) : output.type === 'chunk' ? output.code : output.source);
+      });
+      const version = hash.digest('hex').slice(0, 12);
+      const config = JSON.stringify({ version, precache, appOrigin });
+      const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8');
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: `self.__SW_CONFIG__ = ${config};\n${source}` });
+    }
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +41,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerPlugin(env.APP_ORIGIN || '')],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.APP_ORIGIN': JSON.stringify(env.APP_ORIGIN || '')
       },
       resolve: {
         alias: {